@@ -0,0 +1,180 @@
+import {
+  Cache,
+  CacheAsideStrategy,
+  CacheWarmer,
+  type Codec,
+  CompressedCodec,
+  JsonCodec,
+  MessagePackCodec,
+  RefreshAheadStrategy,
+  StampedeProtectionStrategy,
+  type CacheTagging,
+  type LocalCacheOptions,
+  TagIndex,
+  WriteBehindStrategy,
+  WriteThroughStrategy,
+} from '@valkey-use-cases/cache';
+import { ValkeyClient } from '@valkey-use-cases/shared';
+import { getDataSource } from './data-sources';
+
+const redis = ValkeyClient.getInstance();
+const source = getDataSource();
+
+/**
+ * Codec for all caches, selected by CACHE_CODEC:
+ *
+ * - json (default)
+ * - msgpack
+ * - gzip / brotli: JSON, compressed from 1 KB
+ *
+ * Changing it needs no flush, since entries name the codec they were written
+ * with.
+ */
+function createCodec(): Codec {
+  const type = process.env.CACHE_CODEC || 'json';
+
+  switch (type) {
+    case 'json':
+      return new JsonCodec();
+    case 'msgpack':
+      return new MessagePackCodec();
+    case 'gzip':
+    case 'brotli':
+      return new CompressedCodec({ algorithm: type });
+    default:
+      throw new Error(
+        `Unknown CACHE_CODEC "${type}", expected "json", "msgpack", "gzip" or "brotli"`
+      );
+  }
+}
+
+const codec = createCodec();
+
+export const tagIndex = new TagIndex({ redis });
+
+/**
+ * In-process L1 for the read patterns, whose hot keys are read the most.
+ * Disable with L1_CACHE=off.
+ */
+const localCache: LocalCacheOptions | undefined =
+  process.env.L1_CACHE === 'off'
+    ? undefined
+    : { maxEntries: 1000, maxBytes: 10 * 1024 * 1024, ttlSeconds: 30 };
+
+/**
+ * Values are tagged by their own `tags` field, e.g.
+ * `{ "name": "Summer sale", "tags": ["product:42", "product:43"] }`, whether
+ * they are written or loaded from the source
+ */
+const tagging: CacheTagging<unknown> = {
+  index: tagIndex,
+  tags: (_key, value) => {
+    const tags = (value as { tags?: unknown } | null)?.tags;
+    return Array.isArray(tags)
+      ? tags.filter((tag): tag is string => typeof tag === 'string')
+      : [];
+  },
+};
+
+/**
+ * One cache per demonstrated pattern, each in its own key namespace
+ * (e.g. `cache-aside:<key>`), all backed by the shared data source.
+ */
+
+// Cache-aside: no source, since the application supplies the loader
+export const cacheAsideCache = new Cache<unknown>({
+  redis,
+  name: 'cache-aside',
+  codec,
+  tagging,
+  localCache,
+  readStrategy: new CacheAsideStrategy({
+    load: (key, options) => source.get(key, options),
+  }),
+});
+
+export const readThroughCache = new Cache<unknown>({
+  redis,
+  name: 'read-through',
+  codec,
+  tagging,
+  localCache,
+  source,
+});
+
+export const writeThroughCache = new Cache<unknown>({
+  redis,
+  name: 'write-through',
+  codec,
+  tagging,
+  source,
+  writeStrategy: new WriteThroughStrategy(),
+});
+
+export const writeBehindStrategy = new WriteBehindStrategy<unknown>({
+  redis,
+});
+
+export const writeBehindCache = new Cache<unknown>({
+  redis,
+  name: 'write-behind',
+  codec,
+  tagging,
+  source,
+  writeStrategy: writeBehindStrategy,
+});
+
+export const warmedCache = new Cache<unknown>({
+  redis,
+  name: 'cache-warming',
+  codec,
+  tagging,
+  source,
+});
+
+export const cacheWarmer = new CacheWarmer({
+  cache: warmedCache,
+  // 100 sample keys for demonstration
+  keys: () => Array.from({ length: 100 }, (_, i) => `item${i + 1}`),
+});
+
+export const refreshAheadStrategy = new RefreshAheadStrategy<unknown>();
+
+// Cached for 5m, refreshed when read with less than 1m left
+export const refreshAheadCache = new Cache<unknown>({
+  redis,
+  name: 'refresh-ahead',
+  codec,
+  tagging,
+  ttlSeconds: 300,
+  source,
+  readStrategy: refreshAheadStrategy,
+});
+
+export const stampedeCache = new Cache<unknown>({
+  redis,
+  name: 'stampede',
+  codec,
+  tagging,
+  ttlSeconds: 300,
+  source,
+  readStrategy: new StampedeProtectionStrategy(),
+});
+
+/**
+ * Stop background work (scheduled warming, write-behind consumers)
+ */
+export async function closeCaches(): Promise<void> {
+  cacheWarmer.stopScheduledWarming();
+  await Promise.all(
+    [
+      cacheAsideCache,
+      readThroughCache,
+      writeThroughCache,
+      writeBehindCache,
+      warmedCache,
+      refreshAheadCache,
+      stampedeCache,
+    ].map(cache => cache.close())
+  );
+}
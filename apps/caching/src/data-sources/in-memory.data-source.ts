@@ -0,0 +1,78 @@
+import type { DataSource, DataSourceOptions } from '@valkey-use-cases/cache';
+
+interface InMemoryDataSourceOptions<T> {
+  /** Simulated latency of every call in ms (default: 1000) */
+  latencyMs?: number;
+  /**
+   * Produces the value of keys that were never written, e.g. demo data.
+   * Without it, such keys are missing.
+   */
+  fallback?: (key: string) => T;
+}
+
+/**
+ * In-Memory Data Source
+ *
+ * Emulates a slow backend: values live in a Map, and every call waits
+ * `latencyMs` (or the per-call `delayMs`) to simulate I/O. Useful for demos
+ * and tests that need a source without any infrastructure.
+ *
+ * Values are copied through JSON on the way in and out, like a real store
+ * would serialize them, so callers cannot mutate stored data by reference.
+ */
+export class InMemoryDataSource<T = unknown> implements DataSource<T> {
+  private readonly entries = new Map<string, T>();
+  private readonly latencyMs: number;
+  private readonly fallback?: (key: string) => T;
+
+  constructor(options: InMemoryDataSourceOptions<T> = {}) {
+    this.latencyMs = options.latencyMs ?? 1000;
+    this.fallback = options.fallback;
+  }
+
+  async get(key: string, options?: DataSourceOptions): Promise<T | null> {
+    await this.simulateLatency(options);
+    return this.read(key);
+  }
+
+  async getMany(
+    keys: string[],
+    options?: DataSourceOptions
+  ): Promise<(T | null)[]> {
+    // One round trip for the whole batch
+    await this.simulateLatency(options);
+    return keys.map(key => this.read(key));
+  }
+
+  async put(key: string, value: T, options?: DataSourceOptions): Promise<void> {
+    await this.simulateLatency(options);
+    this.entries.set(key, copy(value));
+  }
+
+  async delete(key: string, options?: DataSourceOptions): Promise<boolean> {
+    await this.simulateLatency(options);
+    return this.entries.delete(key);
+  }
+
+  async close(): Promise<void> {
+    this.entries.clear();
+  }
+
+  private read(key: string): T | null {
+    if (this.entries.has(key)) {
+      return copy(this.entries.get(key) as T);
+    }
+    return this.fallback ? this.fallback(key) : null;
+  }
+
+  private async simulateLatency(options?: DataSourceOptions): Promise<void> {
+    const delayMs = options?.delayMs ?? this.latencyMs;
+    if (delayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+function copy<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
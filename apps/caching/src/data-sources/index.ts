@@ -0,0 +1,47 @@
+import type { DataSource } from '@valkey-use-cases/cache';
+import { InMemoryDataSource } from './in-memory.data-source';
+import { SqliteDataSource } from './sqlite.data-source';
+
+export { InMemoryDataSource } from './in-memory.data-source';
+export { SqliteDataSource } from './sqlite.data-source';
+
+let instance: DataSource<unknown> | undefined;
+
+/**
+ * The data source shared by all caches, selected by environment:
+ *
+ * - DATA_SOURCE=memory (default): InMemoryDataSource with 1s latency, which
+ *   returns demo data for keys that were never written
+ * - DATA_SOURCE=sqlite: SqliteDataSource stored in SQLITE_PATH
+ *   (default: ./caching.sqlite), which starts empty
+ */
+export function getDataSource(): DataSource<unknown> {
+  if (!instance) {
+    const type = process.env.DATA_SOURCE || 'memory';
+
+    if (type === 'sqlite') {
+      instance = new SqliteDataSource({
+        filename: process.env.SQLITE_PATH || './caching.sqlite',
+      });
+    } else if (type === 'memory') {
+      instance = new InMemoryDataSource({
+        fallback: key => ({
+          data: `Data for ${key}`,
+          computedAt: new Date().toISOString(),
+        }),
+      });
+    } else {
+      throw new Error(
+        `Unknown DATA_SOURCE "${type}", expected "memory" or "sqlite"`
+      );
+    }
+  }
+  return instance;
+}
+
+export async function closeDataSource(): Promise<void> {
+  if (instance) {
+    await instance.close();
+    instance = undefined;
+  }
+}
@@ -0,0 +1,91 @@
+import Database from 'better-sqlite3';
+import type { DataSource } from '@valkey-use-cases/cache';
+import { chunkArray } from '@valkey-use-cases/shared';
+
+interface SqliteDataSourceOptions {
+  /** Database file, or `:memory:` for a private in-memory database */
+  filename: string;
+  /** Table holding the entries (default: `entries`) */
+  table?: string;
+}
+
+// Stay well below SQLite's limit on bound parameters per statement
+const MAX_KEYS_PER_QUERY = 500;
+
+/**
+ * SQLite Data Source
+ *
+ * A real local store: entries are rows of a key/value table, with values
+ * stored as JSON. The table is created on first use.
+ *
+ * better-sqlite3 is synchronous, so each call blocks the event loop for the
+ * duration of the query. That is fine for a local file, but a networked
+ * database would use an async driver behind the same interface.
+ */
+export class SqliteDataSource<T = unknown> implements DataSource<T> {
+  private readonly db: Database.Database;
+  private readonly statements: {
+    get: Database.Statement<[string], { value: string }>;
+    put: Database.Statement<[string, string, number]>;
+    delete: Database.Statement<[string]>;
+  };
+  private readonly table: string;
+
+  constructor(options: SqliteDataSourceOptions) {
+    this.table = options.table ?? 'entries';
+    this.db = new Database(options.filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(
+      `CREATE TABLE IF NOT EXISTS ${this.table} (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )`
+    );
+
+    this.statements = {
+      get: this.db.prepare(`SELECT value FROM ${this.table} WHERE key = ?`),
+      put: this.db.prepare(
+        `INSERT INTO ${this.table} (key, value, updated_at) VALUES (?, ?, ?)
+         ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`
+      ),
+      delete: this.db.prepare(`DELETE FROM ${this.table} WHERE key = ?`),
+    };
+  }
+
+  async get(key: string): Promise<T | null> {
+    const row = this.statements.get.get(key);
+    return row ? JSON.parse(row.value) : null;
+  }
+
+  async getMany(keys: string[]): Promise<(T | null)[]> {
+    const values = new Map<string, T>();
+
+    for (const chunk of chunkArray(keys, MAX_KEYS_PER_QUERY)) {
+      const placeholders = chunk.map(() => '?').join(', ');
+      const rows = this.db
+        .prepare(
+          `SELECT key, value FROM ${this.table} WHERE key IN (${placeholders})`
+        )
+        .all(...chunk) as Array<{ key: string; value: string }>;
+
+      for (const row of rows) {
+        values.set(row.key, JSON.parse(row.value));
+      }
+    }
+
+    return keys.map(key => values.get(key) ?? null);
+  }
+
+  async put(key: string, value: T): Promise<void> {
+    this.statements.put.run(key, JSON.stringify(value), Date.now());
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.statements.delete.run(key).changes > 0;
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
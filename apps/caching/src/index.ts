@@ -1,12 +1,16 @@
 import express from 'express';
 import { ValkeyClient } from '@valkey-use-cases/shared';
+import { closeDataSource } from './data-sources';
+import {
+  cacheWarmer,
+  closeCaches,
+  writeBehindCache,
+  writeBehindStrategy,
+} from './caches';
 import readPatternsRouter from './routes/read-patterns';
-import writePatternsRouter, {
-  writeBehindService,
-} from './routes/write-patterns';
-import advancedPatternsRouter, {
-  cacheWarmingService,
-} from './routes/advanced-patterns';
+import writePatternsRouter from './routes/write-patterns';
+import advancedPatternsRouter from './routes/advanced-patterns';
+import cacheRouter from './routes/cache';
 
 const app = express();
 const PORT = process.env.PORT || 3002;
@@ -23,6 +27,7 @@ app.get('/health', (req, res) => {
 app.use('/api/read-patterns', readPatternsRouter);
 app.use('/api/write-patterns', writePatternsRouter);
 app.use('/api/advanced-patterns', advancedPatternsRouter);
+app.use('/api/cache', cacheRouter);
 
 app.use((req, res) => {
   res.status(404).json({ error: 'Not Found' });
@@ -33,15 +38,17 @@ async function startServer() {
     await valkeyClient.ping();
     console.log('Connected to Valkey');
 
+    await writeBehindStrategy.start(writeBehindCache);
+
     // Warm cache on startup
     console.log('\n[Cache Warming] Warming cache on start-up...');
-    const warmingResult = await cacheWarmingService.warmCache();
+    const warmingResult = await cacheWarmer.warm();
     console.log(
       `[Cache Warming] Cache warmed: ${warmingResult.metadata.successCount}/${warmingResult.metadata.totalKeys} keys in ${warmingResult.metadata.totalTimeMs}ms`
     );
 
     // Start scheduled warming (every 5 minutes)
-    cacheWarmingService.startScheduledWarming(5 * 60 * 1000);
+    cacheWarmer.startScheduledWarming(5 * 60 * 1000);
 
     app.listen(PORT, () => {
       console.log(`\nCaching API server running on port ${PORT}`);
@@ -104,6 +111,11 @@ async function startServer() {
       console.log(
         `    DELETE http://localhost:${PORT}/api/advanced-patterns/stampede-prevention/:key`
       );
+      console.log(`\nTag Invalidation:`);
+      console.log(
+        `    POST   http://localhost:${PORT}/api/cache/invalidate-tags`
+      );
+      console.log(`    GET    http://localhost:${PORT}/api/cache/tags/:tag`);
     });
   } catch (error) {
     console.error('Failed to start server:', error);
@@ -113,16 +125,16 @@ async function startServer() {
 
 process.on('SIGTERM', async () => {
   console.log('SIGTERM received, shutting down gracefully');
-  cacheWarmingService.stopScheduledWarming();
-  await writeBehindService.destroy();
+  await closeCaches();
+  await closeDataSource();
   await ValkeyClient.disconnect();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   console.log('SIGINT received, shutting down gracefully');
-  cacheWarmingService.stopScheduledWarming();
-  await writeBehindService.destroy();
+  await closeCaches();
+  await closeDataSource();
   await ValkeyClient.disconnect();
   process.exit(0);
 });
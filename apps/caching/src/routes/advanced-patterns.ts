@@ -1,16 +1,17 @@
 import { Router, Request, Response } from 'express';
-import { CacheWarmingService } from '../services/advanced/cache-warming.service';
-import { RefreshAheadService } from '../services/advanced/refresh-ahead.service';
-import { StampedePreventionService } from '../services/advanced/stampede-prevention.service';
-import { ValkeyClient } from '@valkey-use-cases/shared';
+import {
+  cacheWarmer,
+  refreshAheadCache,
+  refreshAheadStrategy,
+  stampedeCache,
+  warmedCache,
+} from '../caches';
+import { toCacheResponse } from './responses';
 
 const router: Router = Router();
-const redis = ValkeyClient.getInstance();
 
-// Initialize services
-const cacheWarmingService = new CacheWarmingService(redis);
-const refreshAheadService = new RefreshAheadService(redis);
-const stampedePreventionService = new StampedePreventionService(redis);
+// Simulated expensive operation delay for the stampede demo
+const STAMPEDE_COMPUTATION_DELAY = 2000;
 
 /**
  * POST /api/advanced-patterns/cache-warming
@@ -18,8 +19,8 @@ const stampedePreventionService = new StampedePreventionService(redis);
  *
  * Request body (all optional):
  * {
- *   keys?: string[],        // Specific keys to warm (default: getCacheKeysToWarm())
- *   concurrency?: number,   // Batch size (default: 10)
+ *   keys?: string[],        // Specific keys to warm (default: item1..item100)
+ *   concurrency?: number,   // Batch size (default: 10), also accepted as batchSize
  *   ttl?: number,          // Cache TTL in seconds (default: 3600)
  *   delay?: number         // Simulated operation delay in ms (default: 1000)
  * }
@@ -43,7 +44,12 @@ router.post('/cache-warming', async (req: Request, res: Response) => {
       });
     }
 
-    const result = await cacheWarmingService.warmCache(options);
+    const result = await cacheWarmer.warm({
+      keys: options.keys,
+      batchSize: options.batchSize ?? options.concurrency,
+      ttlSeconds: options.ttl,
+      delayMs: options.delay,
+    });
 
     res.json(result);
   } catch (error) {
@@ -63,10 +69,12 @@ router.post('/cache-warming', async (req: Request, res: Response) => {
  */
 router.get('/cache-warming/:key', async (req: Request, res: Response) => {
   try {
+    const startTime = Date.now();
     const { key } = req.params;
-    const result = await cacheWarmingService.get(key);
+    // No fallback to loading: cache warming is proactive
+    const lookup = await warmedCache.getWithMetadata(key);
 
-    if (!result) {
+    if (lookup.value === null) {
       return res.status(404).json({
         data: null,
         metadata: {
@@ -79,7 +87,7 @@ router.get('/cache-warming/:key', async (req: Request, res: Response) => {
       });
     }
 
-    res.json(result);
+    res.json(toCacheResponse(lookup, startTime, warmedCache.hitStats()));
   } catch (error) {
     console.error('Cache warming GET error:', error);
     res.status(500).json({
@@ -102,8 +110,11 @@ router.get('/cache-warming/:key', async (req: Request, res: Response) => {
  */
 router.get('/refresh-ahead/:key', async (req: Request, res: Response) => {
   try {
-    const result = await refreshAheadService.get(req.params.key);
-    res.json(result);
+    const startTime = Date.now();
+    const lookup = await refreshAheadCache.getOrLoadWithMetadata(
+      req.params.key
+    );
+    res.json(toCacheResponse(lookup, startTime, refreshAheadCache.hitStats()));
   } catch (error) {
     console.error('Refresh-ahead GET error:', error);
     res.status(500).json({
@@ -128,7 +139,10 @@ router.get(
   async (req: Request, res: Response) => {
     try {
       const { key } = req.params;
-      const status = await refreshAheadService.getRefreshStatus(key);
+      const status = await refreshAheadStrategy.getRefreshStatus(
+        refreshAheadCache,
+        key
+      );
 
       res.json({ key, status });
     } catch (error) {
@@ -148,7 +162,7 @@ router.get(
 router.delete('/refresh-ahead/:key', async (req: Request, res: Response) => {
   try {
     const { key } = req.params;
-    const deleted = await refreshAheadService.invalidate(key);
+    const deleted = await refreshAheadCache.invalidate(key);
 
     res.json({
       success: true,
@@ -180,6 +194,7 @@ router.delete('/refresh-ahead/:key', async (req: Request, res: Response) => {
  */
 router.get('/stampede-prevention/:key', async (req, res) => {
   try {
+    const startTime = Date.now();
     const { key } = req.params;
 
     if (!key) {
@@ -188,9 +203,11 @@ router.get('/stampede-prevention/:key', async (req, res) => {
       });
     }
 
-    const result = await stampedePreventionService.get(key);
+    const lookup = await stampedeCache.getOrLoadWithMetadata(key, {
+      delayMs: STAMPEDE_COMPUTATION_DELAY,
+    });
 
-    res.json(result);
+    res.json(toCacheResponse(lookup, startTime, stampedeCache.hitStats()));
   } catch (error) {
     console.error('[API] Error in stampede prevention endpoint:', error);
     res.status(500).json({
@@ -218,7 +235,7 @@ router.delete('/stampede-prevention/:key', async (req, res) => {
       });
     }
 
-    const deleted = await stampedePreventionService.invalidate(key);
+    const deleted = await stampedeCache.invalidate(key);
 
     res.json({
       success: true,
@@ -234,5 +251,4 @@ router.delete('/stampede-prevention/:key', async (req, res) => {
   }
 });
 
-export { cacheWarmingService };
 export default router;
@@ -0,0 +1,70 @@
+import { Router, Request, Response } from 'express';
+import { tagIndex } from '../caches';
+
+const router: Router = Router();
+
+/**
+ * POST /api/cache/invalidate-tags
+ * Delete every cached key carrying any of the tags, across all patterns,
+ * atomically
+ *
+ * Request body:
+ * {
+ *   tags: string[]   // e.g. ["product:42"]
+ * }
+ */
+router.post('/invalidate-tags', async (req: Request, res: Response) => {
+  try {
+    const startTime = Date.now();
+    const { tags } = req.body;
+
+    if (
+      !Array.isArray(tags) ||
+      tags.length === 0 ||
+      !tags.every(tag => typeof tag === 'string' && tag.length > 0)
+    ) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'Request body must include "tags", a non-empty string array',
+      });
+    }
+
+    const deletedKeys = await tagIndex.invalidate(tags);
+
+    res.json({
+      success: true,
+      metadata: {
+        tags,
+        deletedKeys,
+        timeTaken: Date.now() - startTime,
+      },
+    });
+  } catch (error) {
+    console.error('Invalidate tags error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/cache/tags/:tag
+ * List the cached keys currently carrying a tag
+ */
+router.get('/tags/:tag', async (req: Request, res: Response) => {
+  try {
+    const { tag } = req.params;
+    const keys = await tagIndex.keys(tag);
+
+    res.json({ tag, keys });
+  } catch (error) {
+    console.error('Tag keys error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+export default router;
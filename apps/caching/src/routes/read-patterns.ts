@@ -1,29 +1,32 @@
 import { Router, Request, Response } from 'express';
-import { CacheAsideService } from '../services/read/cache-aside.service';
-import { ReadThroughService } from '../services/read/read-through.service';
-import { ValkeyClient } from '@valkey-use-cases/shared';
+import { cacheAsideCache, readThroughCache } from '../caches';
+import { toCacheResponse } from './responses';
 
 const router: Router = Router();
-const redis = ValkeyClient.getInstance();
-
-// Initialize services
-const cacheAsideService = new CacheAsideService(redis);
-const readThroughService = new ReadThroughService(redis);
 
 /**
  * GET /api/read-patterns/cache-aside/:key
  * Get data using cache-aside pattern
+ *
+ * The application supplies the loader (see CacheAsideStrategy):
+ * 1. Check cache first (GET key)
+ * 2. If HIT → return cached data
+ * 3. If MISS → call the loader, store in cache, return data
+ *
  * Query params:
  *   - delay: Simulation delay in ms (default: 1000)
  */
 router.get('/cache-aside/:key', async (req: Request, res: Response) => {
   try {
+    const startTime = Date.now();
     const { key } = req.params;
     const delay = parseInt(req.query.delay as string) || 1000;
 
-    const result = await cacheAsideService.get(key, delay);
+    const lookup = await cacheAsideCache.getOrLoadWithMetadata(key, {
+      delayMs: delay,
+    });
 
-    res.json(result);
+    res.json(toCacheResponse(lookup, startTime, cacheAsideCache.hitStats()));
   } catch (error) {
     console.error('Cache-aside GET error:', error);
     res.status(500).json({
@@ -40,7 +43,7 @@ router.get('/cache-aside/:key', async (req: Request, res: Response) => {
 router.delete('/cache-aside/:key', async (req: Request, res: Response) => {
   try {
     const { key } = req.params;
-    const deleted = await cacheAsideService.invalidate(key);
+    const deleted = await cacheAsideCache.invalidate(key);
 
     res.json({
       key,
@@ -58,18 +61,21 @@ router.delete('/cache-aside/:key', async (req: Request, res: Response) => {
 
 /**
  * GET /api/read-patterns/read-through/:key
- * Get data using read-through pattern
+ * Get data using read-through pattern: the cache loads misses itself
  * Query params:
  *   - delay: Simulation delay in ms (default: 1000)
  */
 router.get('/read-through/:key', async (req: Request, res: Response) => {
   try {
+    const startTime = Date.now();
     const { key } = req.params;
     const delay = parseInt(req.query.delay as string) || 1000;
 
-    const result = await readThroughService.get(key, delay);
+    const lookup = await readThroughCache.getOrLoadWithMetadata(key, {
+      delayMs: delay,
+    });
 
-    res.json(result);
+    res.json(toCacheResponse(lookup, startTime, readThroughCache.hitStats()));
   } catch (error) {
     console.error('Read-through GET error:', error);
     res.status(500).json({
@@ -86,7 +92,7 @@ router.get('/read-through/:key', async (req: Request, res: Response) => {
 router.delete('/read-through/:key', async (req: Request, res: Response) => {
   try {
     const { key } = req.params;
-    const deleted = await readThroughService.invalidate(key);
+    const deleted = await readThroughCache.invalidate(key);
 
     res.json({
       key,
@@ -0,0 +1,62 @@
+import type {
+  CacheHitStats,
+  CacheLookup,
+  WriteResult,
+} from '@valkey-use-cases/cache';
+
+export interface CacheMetadata {
+  key: string;
+  source: 'cache' | 'computed';
+  level?: 'l1' | 'l2'; // Cache hits: in-process L1 or Valkey L2
+  timeTaken: number; // milliseconds
+  ttl?: number; // seconds remaining
+  lockAcquired?: boolean; // Stampede prevention: this request acquired the lock
+  waitedForLock?: boolean; // Stampede prevention: this request waited for another
+  waitTimeMs?: number; // Stampede prevention: time spent waiting for lock holder
+  hitStats?: CacheHitStats; // L1/L2 hits and misses of the cache so far
+}
+
+export interface CacheResponse<T> {
+  data: T;
+  metadata: CacheMetadata;
+}
+
+export interface WriteMetadata {
+  key: string;
+  timeTaken: number; // milliseconds
+  writtenToCache: boolean;
+  writtenToSource: boolean;
+}
+
+export interface WriteResponse {
+  success: boolean;
+  metadata: WriteMetadata;
+}
+
+/**
+ * Response body of a cache read, timed from `startTime`
+ */
+export function toCacheResponse<T>(
+  lookup: CacheLookup<T>,
+  startTime: number,
+  hitStats?: CacheHitStats
+): CacheResponse<T | null> {
+  const { value, ...metadata } = lookup;
+  return {
+    data: value,
+    metadata: { ...metadata, timeTaken: Date.now() - startTime, hitStats },
+  };
+}
+
+/**
+ * Response body of a cache write, timed from `startTime`
+ */
+export function toWriteResponse(
+  result: WriteResult,
+  startTime: number
+): WriteResponse {
+  return {
+    success: true,
+    metadata: { ...result, timeTaken: Date.now() - startTime },
+  };
+}
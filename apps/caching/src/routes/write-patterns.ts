@@ -1,14 +1,12 @@
 import { Router, Request, Response } from 'express';
-import { WriteThroughService } from '../services/write/write-through.service';
-import { WriteBehindService } from '../services/write/write-behind.service';
-import { ValkeyClient } from '@valkey-use-cases/shared';
+import {
+  writeBehindCache,
+  writeBehindStrategy,
+  writeThroughCache,
+} from '../caches';
+import { toCacheResponse, toWriteResponse } from './responses';
 
 const router: Router = Router();
-const redis = ValkeyClient.getInstance();
-
-// Initialize services
-const writeThroughService = new WriteThroughService(redis);
-const writeBehindService = new WriteBehindService(redis);
 
 /**
  * POST /api/write-patterns/write-through/:key
@@ -19,6 +17,7 @@ const writeBehindService = new WriteBehindService(redis);
  */
 router.post('/write-through/:key', async (req: Request, res: Response) => {
   try {
+    const startTime = Date.now();
     const { key } = req.params;
     const { value, delay } = req.body;
 
@@ -31,9 +30,9 @@ router.post('/write-through/:key', async (req: Request, res: Response) => {
 
     const delayMs = typeof delay === 'number' ? delay : 1000;
 
-    const result = await writeThroughService.write(key, value, delayMs);
+    const result = await writeThroughCache.write(key, value, { delayMs });
 
-    res.json(result);
+    res.json(toWriteResponse(result, startTime));
   } catch (error) {
     console.error('Write-through POST error:', error);
     res.status(500).json({
@@ -49,9 +48,15 @@ router.post('/write-through/:key', async (req: Request, res: Response) => {
  */
 router.get('/write-through/:key', async (req: Request, res: Response) => {
   try {
+    const startTime = Date.now();
     const { key } = req.params;
 
-    const result = await writeThroughService.read(key);
+    // In write-through, data should always be in cache after a write
+    const result = toCacheResponse(
+      await writeThroughCache.getWithMetadata(key),
+      startTime,
+      writeThroughCache.hitStats()
+    );
 
     if (result.data === null) {
       return res.status(404).json({
@@ -79,6 +84,7 @@ router.get('/write-through/:key', async (req: Request, res: Response) => {
  */
 router.post('/write-behind/:key', async (req: Request, res: Response) => {
   try {
+    const startTime = Date.now();
     const { key } = req.params;
     const { value } = req.body;
 
@@ -89,9 +95,9 @@ router.post('/write-behind/:key', async (req: Request, res: Response) => {
       });
     }
 
-    const result = await writeBehindService.write(key, value);
+    const result = await writeBehindCache.write(key, value);
 
-    res.json(result);
+    res.json(toWriteResponse(result, startTime));
   } catch (error) {
     console.error('Write-behind POST error:', error);
     res.status(500).json({
@@ -107,9 +113,14 @@ router.post('/write-behind/:key', async (req: Request, res: Response) => {
  */
 router.get('/write-behind/:key', async (req: Request, res: Response) => {
   try {
+    const startTime = Date.now();
     const { key } = req.params;
 
-    const result = await writeBehindService.read(key);
+    const result = toCacheResponse(
+      await writeBehindCache.getWithMetadata(key),
+      startTime,
+      writeBehindCache.hitStats()
+    );
 
     if (result.data === null) {
       return res.status(404).json({
@@ -135,7 +146,7 @@ router.get('/write-behind/:key', async (req: Request, res: Response) => {
  */
 router.get('/write-behind-queue/stats', async (req: Request, res: Response) => {
   try {
-    const stats = await writeBehindService.getQueueStats();
+    const stats = await writeBehindStrategy.getQueueStats(writeBehindCache);
 
     res.json({
       queue: 'write-behind',
@@ -160,4 +171,3 @@ router.get('/write-behind-queue/stats', async (req: Request, res: Response) => {
 });
 
 export default router;
-export { writeBehindService };
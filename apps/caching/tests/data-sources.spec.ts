@@ -0,0 +1,96 @@
+import type { DataSource } from '@valkey-use-cases/cache';
+import { InMemoryDataSource } from '../src/data-sources/in-memory.data-source';
+import { SqliteDataSource } from '../src/data-sources/sqlite.data-source';
+
+interface Item {
+  name: string;
+  tags?: string[];
+}
+
+describe('Data Sources', () => {
+  const sources: Array<[string, () => DataSource<Item>]> = [
+    ['in-memory', () => new InMemoryDataSource<Item>({ latencyMs: 0 })],
+    ['sqlite', () => new SqliteDataSource<Item>({ filename: ':memory:' })],
+  ];
+
+  describe.each(sources)('%s', (_name, createSource) => {
+    let source: DataSource<Item>;
+
+    beforeEach(() => {
+      source = createSource();
+    });
+
+    afterEach(async () => {
+      await source.close();
+    });
+
+    test('get returns null for a key never written', async () => {
+      expect(await source.get('missing')).toBeNull();
+    });
+
+    test('put stores a value and replaces an existing one', async () => {
+      await source.put('1', { name: 'one', tags: ['a'] });
+      expect(await source.get('1')).toEqual({ name: 'one', tags: ['a'] });
+
+      await source.put('1', { name: 'uno' });
+      expect(await source.get('1')).toEqual({ name: 'uno' });
+    });
+
+    test('returned values are copies of the stored ones', async () => {
+      await source.put('1', { name: 'one' });
+
+      const value = await source.get('1');
+      value!.name = 'changed';
+
+      expect(await source.get('1')).toEqual({ name: 'one' });
+    });
+
+    test('getMany returns values in key order, null for missing keys', async () => {
+      await source.put('1', { name: 'one' });
+      await source.put('3', { name: 'three' });
+
+      expect(await source.getMany(['3', '2', '1', '3'])).toEqual([
+        { name: 'three' },
+        null,
+        { name: 'one' },
+        { name: 'three' },
+      ]);
+      expect(await source.getMany([])).toEqual([]);
+    });
+
+    test('getMany reads batches larger than one query', async () => {
+      const keys = Array.from({ length: 1200 }, (_, i) => `key${i}`);
+      for (const key of keys.filter((_, i) => i % 2 === 0)) {
+        await source.put(key, { name: key });
+      }
+
+      const values = await source.getMany(keys);
+
+      expect(values).toHaveLength(1200);
+      expect(values[0]).toEqual({ name: 'key0' });
+      expect(values[1]).toBeNull();
+      expect(values[1198]).toEqual({ name: 'key1198' });
+      expect(values[1199]).toBeNull();
+    });
+
+    test('delete removes a value and reports whether it existed', async () => {
+      await source.put('1', { name: 'one' });
+
+      expect(await source.delete('1')).toBe(true);
+      expect(await source.get('1')).toBeNull();
+      expect(await source.delete('1')).toBe(false);
+    });
+  });
+
+  test('in-memory source produces fallback values for keys never written', async () => {
+    const source = new InMemoryDataSource<Item>({
+      latencyMs: 0,
+      fallback: key => ({ name: `demo ${key}` }),
+    });
+
+    expect(await source.get('1')).toEqual({ name: 'demo 1' });
+    await source.put('1', { name: 'one' });
+    expect(await source.get('1')).toEqual({ name: 'one' });
+    await source.close();
+  });
+});
@@ -0,0 +1,325 @@
+import { Router, Request, Response } from 'express';
+import { LimitOverrideStore } from './overrides/limit-override-store';
+import { LimiterConfig, validateLimiterConfig } from './rules/rules';
+import { RateLimitPolicy } from './rules/policy-middleware';
+import { ConsumerTracker } from './consumer-tracker';
+import { ShadowRejectionTracker } from './shadow-rejection-tracker';
+import { TopUpNotSupportedError } from './models';
+
+interface AdminRouterDependencies {
+  overrides: LimitOverrideStore;
+  policy: RateLimitPolicy;
+  consumers: ConsumerTracker;
+  shadowRejections: ShadowRejectionTracker;
+}
+
+/**
+ * Creates the Express router for rate limiter administration.
+ *
+ * Keys are full rate limit keys as seen by the limiter, e.g.
+ * `rate_limit:api-free:ip:203.0.113.7`, URL-encoded in the path.
+ *
+ * These endpoints change production limits: mount them behind
+ * authentication or on an internal-only port.
+ */
+export function createAdminRouter({
+  overrides,
+  policy,
+  consumers,
+  shadowRejections,
+}: AdminRouterDependencies): Router {
+  const router = Router();
+
+  /**
+   * GET /limits/:key
+   *
+   * Peeks at the key's current usage and remaining quota without consuming
+   * a permit.
+   *
+   * Response codes:
+   * - 200 OK: The key's state under its rule's limiter
+   * - 404 Not Found: The key belongs to no rule
+   */
+  router.get(
+    '/limits/:key',
+    async (req: Request, res: Response): Promise<void> => {
+      try {
+        const { key } = req.params;
+        const match = policy.findByKey(key);
+
+        if (!match) {
+          res.status(404).json({ error: `No rule matches key '${key}'` });
+          return;
+        }
+
+        const result = await match.limiter.inspect(key);
+        res.json({
+          key,
+          rule: match.rule.name,
+          usage: Math.max(0, result.requestLimit - result.remainingRequests),
+          remaining: result.remainingRequests,
+          limit: result.requestLimit,
+          windowMs: result.windowMs,
+          limited: !result.allowed,
+          retryAfterMs: result.retryAfterMs,
+          tier: result.bindingTier,
+          resetAt: result.resetAt && new Date(result.resetAt).toISOString(),
+        });
+      } catch (error) {
+        sendInternalError(res, 'Inspect limit', error);
+      }
+    }
+  );
+
+  /**
+   * POST /limits/:key/top-up
+   *
+   * Adds units to the key's quota for the rest of the current period, e.g.
+   * after a customer bought extra calls. Body: `{"units": 10000}`.
+   *
+   * Response codes:
+   * - 200 OK: The key's quota after the top-up
+   * - 400 Bad Request: Invalid units, or the key's limiter has no quota periods
+   * - 404 Not Found: The key belongs to no rule
+   */
+  router.post(
+    '/limits/:key/top-up',
+    async (req: Request, res: Response): Promise<void> => {
+      try {
+        const { key } = req.params;
+        const units = req.body?.units;
+        const match = policy.findByKey(key);
+
+        if (!match) {
+          res.status(404).json({ error: `No rule matches key '${key}'` });
+          return;
+        }
+        if (!Number.isInteger(units) || units <= 0) {
+          res.status(400).json({ error: 'units must be a positive integer' });
+          return;
+        }
+        if (!match.limiter.topUp) {
+          throw new TopUpNotSupportedError();
+        }
+
+        const result = await match.limiter.topUp(key, units);
+        res.json({
+          key,
+          rule: match.rule.name,
+          remaining: result.remainingRequests,
+          limit: result.requestLimit,
+          resetAt: result.resetAt && new Date(result.resetAt).toISOString(),
+        });
+      } catch (error) {
+        if (error instanceof TopUpNotSupportedError) {
+          res.status(400).json({ error: error.message });
+          return;
+        }
+        sendInternalError(res, 'Top up quota', error);
+      }
+    }
+  );
+
+  /**
+   * DELETE /limits/:key
+   *
+   * Clears the key's usage, giving it a full quota. Overrides are kept.
+   *
+   * Response codes:
+   * - 204 No Content: Key reset
+   * - 404 Not Found: The key belongs to no rule
+   */
+  router.delete(
+    '/limits/:key',
+    async (req: Request, res: Response): Promise<void> => {
+      try {
+        const { key } = req.params;
+        const match = policy.findByKey(key);
+
+        if (!match) {
+          res.status(404).json({ error: `No rule matches key '${key}'` });
+          return;
+        }
+
+        await match.limiter.reset(key);
+        res.status(204).end();
+      } catch (error) {
+        sendInternalError(res, 'Reset limit', error);
+      }
+    }
+  );
+
+  /**
+   * GET /top-consumers?count=10&minutes=5
+   *
+   * Lists the keys that requested the most units (allowed or not) over the
+   * last `minutes` minutes (at most the tracker's retention, one hour by
+   * default), highest first. The response's `minutes` is the window actually
+   * covered.
+   *
+   * Response codes:
+   * - 200 OK: The top consumers
+   * - 400 Bad Request: `count` or `minutes` is not a positive integer
+   */
+  router.get(
+    '/top-consumers',
+    async (req: Request, res: Response): Promise<void> => {
+      try {
+        const count = parseInt((req.query.count as string) || '10', 10);
+        const minutes = parseInt((req.query.minutes as string) || '5', 10);
+
+        if (!(count > 0) || !(minutes > 0)) {
+          res.status(400).json({
+            error: 'count and minutes must be positive integers',
+          });
+          return;
+        }
+
+        const window = Math.min(minutes, consumers.maxBuckets);
+        res.json({
+          minutes: window,
+          consumers: await consumers.top(count, window),
+        });
+      } catch (error) {
+        sendInternalError(res, 'List top consumers', error);
+      }
+    }
+  );
+
+  /**
+   * GET /overrides
+   *
+   * Lists every runtime limit override.
+   */
+  router.get(
+    '/overrides',
+    async (req: Request, res: Response): Promise<void> => {
+      try {
+        res.json({ overrides: await overrides.list() });
+      } catch (error) {
+        sendInternalError(res, 'List overrides', error);
+      }
+    }
+  );
+
+  /**
+   * GET /overrides/:key
+   *
+   * Response codes:
+   * - 200 OK: The key's override
+   * - 404 Not Found: The key has no override
+   */
+  router.get(
+    '/overrides/:key',
+    async (req: Request, res: Response): Promise<void> => {
+      try {
+        const { key } = req.params;
+        const override = await overrides.get(key);
+
+        if (!override) {
+          res.status(404).json({ error: `No override for key '${key}'` });
+          return;
+        }
+        res.json({ key, limiter: override });
+      } catch (error) {
+        sendInternalError(res, 'Get override', error);
+      }
+    }
+  );
+
+  /**
+   * PUT /overrides/:key
+   *
+   * Creates or replaces the key's override. The body is a limiter config, as
+   * used in the rules file, e.g. `{"type":"sliding-window","windowMs":1000,"requestLimit":20}`.
+   *
+   * Response codes:
+   * - 200 OK: Override stored and broadcast to all instances
+   * - 400 Bad Request: Invalid limiter config
+   */
+  router.put(
+    '/overrides/:key',
+    async (req: Request, res: Response): Promise<void> => {
+      try {
+        const { key } = req.params;
+        const issues = validateLimiterConfig(req.body);
+
+        if (issues.length > 0) {
+          res.status(400).json({ error: 'Invalid limiter config', issues });
+          return;
+        }
+
+        await overrides.set(key, req.body as LimiterConfig);
+        res.json({ key, limiter: req.body });
+      } catch (error) {
+        sendInternalError(res, 'Set override', error);
+      }
+    }
+  );
+
+  /**
+   * DELETE /overrides/:key
+   *
+   * Response codes:
+   * - 204 No Content: Override removed, the rule's limit applies again
+   * - 404 Not Found: The key had no override
+   */
+  router.delete(
+    '/overrides/:key',
+    async (req: Request, res: Response): Promise<void> => {
+      try {
+        const { key } = req.params;
+
+        if (!(await overrides.delete(key))) {
+          res.status(404).json({ error: `No override for key '${key}'` });
+          return;
+        }
+        res.status(204).end();
+      } catch (error) {
+        sendInternalError(res, 'Delete override', error);
+      }
+    }
+  );
+
+  /**
+   * GET /shadow-rejections?minutes=60
+   *
+   * Summarizes the requests that rules in shadow mode would have rejected
+   * over the last `minutes` minutes (at most 60), per rule and per key.
+   *
+   * Response codes:
+   * - 200 OK: The summary
+   * - 400 Bad Request: `minutes` is not a positive integer
+   */
+  router.get(
+    '/shadow-rejections',
+    async (req: Request, res: Response): Promise<void> => {
+      try {
+        const minutes = parseInt((req.query.minutes as string) || '60', 10);
+
+        if (!(minutes > 0)) {
+          res.status(400).json({ error: 'minutes must be a positive integer' });
+          return;
+        }
+
+        res.json(await shadowRejections.summary(minutes));
+      } catch (error) {
+        sendInternalError(res, 'Summarize shadow rejections', error);
+      }
+    }
+  );
+
+  return router;
+}
+
+function sendInternalError(
+  res: Response,
+  operation: string,
+  error: unknown
+): void {
+  console.error(`${operation} error:`, error);
+  res.status(500).json({
+    error: 'Internal server error',
+    message: error instanceof Error ? error.message : 'Unknown error',
+  });
+}
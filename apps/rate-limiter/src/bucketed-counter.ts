@@ -0,0 +1,114 @@
+import Redis from 'ioredis';
+import { randomUUID } from 'crypto';
+
+export interface BucketedCounterOptions {
+  redis: Redis;
+  /** Sorted sets are named `<keyPrefix><bucket>` */
+  keyPrefix: string;
+  /** Width of each bucket. Defaults to one minute. */
+  bucketMs?: number;
+  /** How many buckets are kept, i.e. the longest period `sum` can cover. Defaults to 60. */
+  retainedBuckets?: number;
+}
+
+export interface CounterTotal {
+  member: string;
+  count: number;
+}
+
+/**
+ * Counts occurrences per member in one sorted set per time bucket (ZINCRBY),
+ * so old buckets simply expire and totals over recent buckets are a union of
+ * the buckets.
+ *
+ * Incrementing is fire-and-forget: counting must never slow down or fail a
+ * request.
+ */
+export class BucketedCounter {
+  private redis: Redis;
+  private readonly keyPrefix: string;
+  private readonly bucketMs: number;
+  private readonly retainedBuckets: number;
+
+  constructor(options: BucketedCounterOptions) {
+    this.redis = options.redis;
+    this.keyPrefix = options.keyPrefix;
+    this.bucketMs = options.bucketMs ?? 60 * 1000;
+    this.retainedBuckets = options.retainedBuckets ?? 60;
+  }
+
+  get maxBuckets(): number {
+    return this.retainedBuckets;
+  }
+
+  increment(member: string, by = 1): void {
+    const bucketKey = this.bucketKey(Math.floor(Date.now() / this.bucketMs));
+    this.redis
+      .multi()
+      .zincrby(bucketKey, by, member)
+      .pexpire(bucketKey, this.bucketMs * (this.retainedBuckets + 1))
+      .exec()
+      .catch(error => {
+        console.warn(`Failed to count ${this.keyPrefix}*:`, error.message);
+      });
+  }
+
+  /**
+   * Returns the members' totals over the last `buckets` buckets (the
+   * current, partial one included), highest first. With `limit`, only the
+   * top `limit` members are returned.
+   */
+  async sum(buckets = 1, limit?: number): Promise<CounterTotal[]> {
+    const current = Math.floor(Date.now() / this.bucketMs);
+    const bucketKeys = Array.from(
+      { length: Math.min(buckets, this.retainedBuckets) },
+      (_, i) => this.bucketKey(current - i)
+    );
+
+    let pairs: [string, string][];
+    if (limit === undefined) {
+      const reply = (await this.redis.call(
+        'ZUNION',
+        bucketKeys.length,
+        ...bucketKeys,
+        'WITHSCORES'
+      )) as string[];
+      // ZUNION returns members in ascending score order
+      pairs = toPairs(reply).reverse();
+    } else if (limit <= 0) {
+      return [];
+    } else {
+      // Union into a temporary key inside the server, so only the top members
+      // are sent back however many the buckets hold
+      const unionKey = `${this.keyPrefix}union:${randomUUID()}`;
+      const results = await this.redis
+        .multi()
+        .zunionstore(unionKey, bucketKeys.length, ...bucketKeys)
+        .zrange(unionKey, 0, limit - 1, 'REV', 'WITHSCORES')
+        .del(unionKey)
+        .exec();
+      const [error, top] = results?.[1] ?? [new Error('Transaction aborted')];
+      if (error) {
+        throw error;
+      }
+      pairs = toPairs(top as string[]);
+    }
+
+    return pairs.map(([member, count]) => ({
+      member,
+      count: Number(count),
+    }));
+  }
+
+  private bucketKey(bucket: number): string {
+    return `${this.keyPrefix}${bucket}`;
+  }
+}
+
+function toPairs(reply: string[]): [string, string][] {
+  const pairs: [string, string][] = [];
+  for (let i = 0; i < reply.length; i += 2) {
+    pairs.push([reply[i], reply[i + 1]]);
+  }
+  return pairs;
+}
@@ -0,0 +1,125 @@
+export type CalendarPeriodUnit = 'day' | 'week' | 'month';
+
+export interface CalendarPeriod {
+  /** Local start date of the period, e.g. `2024-03-01` (month periods: `2024-03`) */
+  id: string;
+  /** Unix time (ms) of the period's first instant */
+  start: number;
+  /** Unix time (ms) of the next period's first instant */
+  end: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Returns the calendar day, week or month containing `timestamp`, with
+ * boundaries at local midnight in `timeZone` (an IANA name such as
+ * `Europe/Berlin`). Weeks start on `weekStartsOn` (0 = Sunday, 1 = Monday).
+ *
+ * Periods follow daylight saving time, so a day can be 23 or 25 hours long.
+ */
+export function calendarPeriod(
+  timestamp: number,
+  unit: CalendarPeriodUnit,
+  timeZone: string,
+  weekStartsOn = 1
+): CalendarPeriod {
+  const { year, month, day } = zonedParts(timestamp, timeZone);
+
+  if (unit === 'month') {
+    return {
+      id: `${year}-${pad(month)}`,
+      start: zonedMidnight(year, month, 1, timeZone),
+      end: zonedMidnight(year, month + 1, 1, timeZone),
+    };
+  }
+
+  let startDay = day;
+  if (unit === 'week') {
+    const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+    startDay = day - ((weekday - weekStartsOn + 7) % 7);
+  }
+  const length = unit === 'week' ? 7 : 1;
+  const start = new Date(Date.UTC(year, month - 1, startDay));
+
+  return {
+    id: start.toISOString().slice(0, 10),
+    start: zonedMidnight(year, month, startDay, timeZone),
+    end: zonedMidnight(year, month, startDay + length, timeZone),
+  };
+}
+
+/** Throws a RangeError for time zones the runtime does not know. */
+export function assertValidTimeZone(timeZone: string): void {
+  formatter(timeZone);
+}
+
+/**
+ * UTC time of local midnight on the given date. Out-of-range days and months
+ * roll over, e.g. month 13 is January of the next year.
+ */
+function zonedMidnight(
+  year: number,
+  month: number,
+  day: number,
+  timeZone: string
+): number {
+  const asUtc = Date.UTC(year, month - 1, day);
+  // The offset at the guess may differ from the one at midnight across a DST
+  // change, so correct once more with the offset at the first estimate
+  const estimate = asUtc - offsetAt(asUtc, timeZone);
+  return asUtc - offsetAt(estimate, timeZone);
+}
+
+/** Offset of local time from UTC in `timeZone` at `timestamp`, in ms */
+function offsetAt(timestamp: number, timeZone: string): number {
+  const p = zonedParts(timestamp, timeZone);
+  const localAsUtc = Date.UTC(
+    p.year,
+    p.month - 1,
+    p.day,
+    p.hour,
+    p.minute,
+    p.second
+  );
+  return localAsUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+function zonedParts(timestamp: number, timeZone: string) {
+  const values: Record<string, number> = {};
+  for (const part of formatter(timeZone).formatToParts(new Date(timestamp))) {
+    if (part.type !== 'literal') {
+      values[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return {
+    year: values.year,
+    month: values.month,
+    day: values.day,
+    hour: values.hour,
+    minute: values.minute,
+    second: values.second,
+  };
+}
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let format = formatters.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, format);
+  }
+  return format;
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
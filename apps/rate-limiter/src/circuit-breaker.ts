@@ -0,0 +1,122 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures before the circuit opens. Defaults to 5. */
+  failureThreshold?: number;
+
+  /** How long the circuit stays open before a trial call is let through. Defaults to 10s. */
+  resetTimeoutMs?: number;
+
+  /** Calls taking longer than this are counted as failures. Defaults to 1s. */
+  callTimeoutMs?: number;
+}
+
+/**
+ * Thrown instead of calling the protected operation while the circuit is open.
+ */
+export class CircuitOpenError extends Error {
+  constructor() {
+    super('Circuit breaker is open');
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Thrown when the protected operation does not settle within callTimeoutMs.
+ */
+export class CallTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Call timed out after ${timeoutMs}ms`);
+    this.name = 'CallTimeoutError';
+  }
+}
+
+/**
+ * Circuit breaker guarding calls to Valkey.
+ *
+ * - closed: calls go through; consecutive failures are counted
+ * - open: calls fail immediately with CircuitOpenError, so an unavailable
+ *   Valkey does not add a timeout to every request
+ * - half-open: after resetTimeoutMs a single trial call is let through; success
+ *   closes the circuit, failure opens it again
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private readonly callTimeoutMs: number;
+
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 10000;
+    this.callTimeoutMs = options.callTimeoutMs ?? 1000;
+  }
+
+  getState(): CircuitState {
+    if (
+      this.state === 'open' &&
+      Date.now() - this.openedAt >= this.resetTimeoutMs
+    ) {
+      this.state = 'half-open';
+    }
+    return this.state;
+  }
+
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    const state = this.getState();
+
+    if (state === 'open' || (state === 'half-open' && this.trialInFlight)) {
+      throw new CircuitOpenError();
+    }
+
+    const isTrial = state === 'half-open';
+    if (isTrial) {
+      this.trialInFlight = true;
+    }
+
+    try {
+      const result = await this.withTimeout(operation());
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      this.onFailure();
+      throw error;
+    } finally {
+      if (isTrial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+
+  private onSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.state = 'closed';
+  }
+
+  private onFailure(): void {
+    this.consecutiveFailures++;
+    if (
+      this.state === 'half-open' ||
+      this.consecutiveFailures >= this.failureThreshold
+    ) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new CallTimeoutError(this.callTimeoutMs)),
+        this.callTimeoutMs
+      );
+    });
+
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+}
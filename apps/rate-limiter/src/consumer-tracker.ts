@@ -0,0 +1,51 @@
+import Redis from 'ioredis';
+import { BucketedCounter } from './bucketed-counter';
+
+interface ConsumerTrackerOptions {
+  redis: Redis;
+  /** Sorted sets are named `<keyPrefix><bucket>`. Defaults to `rate_limit:top:`. */
+  keyPrefix?: string;
+  /** Width of each usage bucket. Defaults to one minute. */
+  bucketMs?: number;
+  /** How many buckets are kept, i.e. the longest period `top` can cover. Defaults to 60. */
+  retainedBuckets?: number;
+}
+
+export interface ConsumerUsage {
+  key: string;
+  units: number;
+}
+
+/**
+ * Tracks how many units each rate limit key consumed, to answer "who is
+ * using the most quota right now?".
+ */
+export class ConsumerTracker {
+  private counter: BucketedCounter;
+
+  constructor(options: ConsumerTrackerOptions) {
+    this.counter = new BucketedCounter({
+      ...options,
+      keyPrefix: options.keyPrefix || 'rate_limit:top:',
+    });
+  }
+
+  /** The longest period `top` can cover, in buckets */
+  get maxBuckets(): number {
+    return this.counter.maxBuckets;
+  }
+
+  record(key: string, units: number): void {
+    this.counter.increment(key, units);
+  }
+
+  /**
+   * Returns the `count` keys with the most usage over the last `buckets`
+   * buckets (the current, partial one included), highest first. Periods
+   * longer than `maxBuckets` are cut to `maxBuckets`.
+   */
+  async top(count: number, buckets = 1): Promise<ConsumerUsage[]> {
+    const totals = await this.counter.sum(buckets, count);
+    return totals.map(({ member, count }) => ({ key: member, units: count }));
+  }
+}
@@ -0,0 +1,47 @@
+import { Response } from 'express';
+import { RateLimitResult } from './models';
+
+/**
+ * Which set of rate limit response headers to send:
+ * - `legacy`: `X-RateLimit-Limit`, `X-RateLimit-Remaining`, `X-RateLimit-Reset`
+ * - `draft`: IETF draft `RateLimit` and `RateLimit-Policy` structured fields
+ *   (draft-ietf-httpapi-ratelimit-headers)
+ * - `both`: legacy and draft headers together
+ *
+ * `Retry-After` is always sent on rate limited responses.
+ */
+export type RateLimitHeaderStyle = 'legacy' | 'draft' | 'both';
+
+export function setRateLimitHeaders(
+  res: Response,
+  result: RateLimitResult,
+  style: RateLimitHeaderStyle,
+  policyName: string
+): void {
+  const headers: Record<string, string> = {};
+
+  if (style === 'legacy' || style === 'both') {
+    headers['X-RateLimit-Limit'] = result.requestLimit.toString();
+    headers['X-RateLimit-Remaining'] = result.remainingRequests.toString();
+    if (!result.allowed) {
+      headers['X-RateLimit-Reset'] = result.retryAfterSeconds.toString();
+    }
+  }
+
+  if (style === 'draft' || style === 'both') {
+    // e.g. RateLimit-Policy: "default";q=2;w=1
+    //      RateLimit: "default";r=0;t=1
+    const policy = `"${policyName}"`;
+    headers['RateLimit-Policy'] =
+      `${policy};q=${result.requestLimit};w=${Math.ceil(result.windowMs / 1000)}`;
+    headers['RateLimit'] = result.allowed
+      ? `${policy};r=${result.remainingRequests}`
+      : `${policy};r=0;t=${result.retryAfterSeconds}`;
+  }
+
+  if (!result.allowed) {
+    headers['Retry-After'] = result.retryAfterSeconds.toString();
+  }
+
+  res.set(headers);
+}
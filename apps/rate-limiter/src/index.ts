@@ -1,29 +1,80 @@
 import express from 'express';
+import { collectDefaultMetrics } from 'prom-client';
+import path from 'path';
 import { ValkeyClient } from '@valkey-use-cases/shared';
-import { createRateLimitMiddleware, IpAddressKeyGenerator } from './middleware';
-import { SlidingWindowRateLimiter } from './valkey/sliding-window-rate-limiter';
+import { loadRateLimitRules, RateLimitRule } from './rules/rules';
+import { createRateLimitPolicy } from './rules/policy-middleware';
+import { LimitOverrideStore } from './overrides/limit-override-store';
+import { ConsumerTracker } from './consumer-tracker';
+import { ShadowRejectionTracker } from './shadow-rejection-tracker';
+import { PrometheusRateLimitMetrics } from './metrics';
+import { ValkeyConcurrencyLimiter } from './valkey/concurrency-limiter';
+import { createConcurrencyLimitMiddleware } from './middleware';
+import { createAdminRouter } from './admin-routes';
 
 const app = express();
 const PORT = process.env.PORT || 3003;
+const RULES_FILE =
+  process.env.RATE_LIMIT_RULES ||
+  path.join(__dirname, '..', 'rate-limit-rules.yaml');
 
 app.use(express.json());
 
 const valkeyClient = ValkeyClient.getInstance();
 
-const slidingWindowRateLimitMiddleware = createRateLimitMiddleware(
-  new SlidingWindowRateLimiter({
-    redis: valkeyClient,
-    windowMs: 1000,
-    requestLimit: 2,
-  }),
-  IpAddressKeyGenerator
+// Fail fast on a malformed rules file, before accepting any traffic
+let rules: RateLimitRule[];
+try {
+  rules = loadRateLimitRules(RULES_FILE);
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
+
+const overrides = new LimitOverrideStore({ redis: valkeyClient });
+const consumers = new ConsumerTracker({ redis: valkeyClient });
+const shadowRejections = new ShadowRejectionTracker({ redis: valkeyClient });
+const metrics = new PrometheusRateLimitMetrics();
+collectDefaultMetrics({ register: metrics.registry });
+
+const policy = createRateLimitPolicy({
+  redis: valkeyClient,
+  rules,
+  overrides,
+  // Demo only: in production the plan comes from the authenticated customer
+  planResolver: req => req.get('X-Customer-Plan') || 'free',
+  middlewareOptions: {
+    headers: 'both',
+    onFailurePolicy: event => {
+      console.warn(
+        `Rate limiter ${event.reason}: applied ${event.policy} policy for ${event.key}`
+      );
+    },
+    onRateLimitResult: event => {
+      // Shadow rules see requests an enforced rule already counts
+      if (!event.shadow) {
+        consumers.record(event.key, event.cost);
+      }
+    },
+    shadowRejections,
+    metrics,
+  },
+});
+const rateLimitMiddleware = policy.middleware;
+
+const concurrencyLimitMiddleware = createConcurrencyLimitMiddleware(
+  new ValkeyConcurrencyLimiter({ redis: valkeyClient, maxConcurrent: 2 }),
+  undefined,
+  { headers: 'both', policyName: 'report-concurrency' }
 );
 
 app.get('/health', (req, res) => {
   res.json({ status: 'ok', service: 'rate-limiter' });
 });
 
-app.get('/api/data', slidingWindowRateLimitMiddleware, (req, res) => {
+app.get('/metrics', metrics.handler());
+
+app.get('/api/data', rateLimitMiddleware, (req, res) => {
   res.json({
     message: 'Data retrieved successfully',
     timestamp: new Date().toISOString(),
@@ -31,7 +82,7 @@ app.get('/api/data', slidingWindowRateLimitMiddleware, (req, res) => {
   });
 });
 
-app.get('/api/protected', slidingWindowRateLimitMiddleware, (req, res) => {
+app.get('/api/protected', rateLimitMiddleware, (req, res) => {
   res.json({
     message: 'This endpoint is rate limited to 2 RPS',
     timestamp: new Date().toISOString(),
@@ -42,6 +93,30 @@ app.get('/api/protected', slidingWindowRateLimitMiddleware, (req, res) => {
   });
 });
 
+app.get('/api/burst', rateLimitMiddleware, (req, res) => {
+  res.json({
+    message:
+      'This endpoint allows bursts of 5 requests, refilling at 2 tokens per second',
+    timestamp: new Date().toISOString(),
+  });
+});
+
+app.get('/api/report', concurrencyLimitMiddleware, (req, res) => {
+  // Simulates a slow downstream call
+  setTimeout(() => {
+    res.json({
+      message: 'This endpoint allows 2 concurrent requests per client',
+      timestamp: new Date().toISOString(),
+    });
+  }, 2000);
+});
+
+// Not rate limited; protect with authentication in production
+app.use(
+  '/admin',
+  createAdminRouter({ overrides, policy, consumers, shadowRejections })
+);
+
 app.use((req, res) => {
   res.status(404).json({ error: 'Not Found' });
 });
@@ -51,10 +126,22 @@ async function startServer() {
     await valkeyClient.ping();
     console.log('Connected to Valkey');
 
+    await overrides.start();
+
     app.listen(PORT, () => {
       console.log(`Rate Limiter API server running on port ${PORT}`);
       console.log(`Health check: http://localhost:${PORT}/health`);
+      console.log(`Metrics: http://localhost:${PORT}/metrics`);
       console.log(`Protected endpoint: http://localhost:${PORT}/api/protected`);
+      console.log(`Burst endpoint: http://localhost:${PORT}/api/burst`);
+      console.log(
+        `Concurrency limited endpoint: http://localhost:${PORT}/api/report`
+      );
+      console.log(`Loaded ${rules.length} rate limit rules from ${RULES_FILE}`);
+      console.log(`Limit overrides: http://localhost:${PORT}/admin/overrides`);
+      console.log(
+        `Top consumers: http://localhost:${PORT}/admin/top-consumers`
+      );
     });
   } catch (error) {
     console.error('Failed to connect to Valkey:', error);
@@ -64,12 +151,14 @@ async function startServer() {
 
 process.on('SIGTERM', async () => {
   console.log('SIGTERM received, shutting down gracefully');
+  await overrides.stop();
   await ValkeyClient.disconnect();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   console.log('SIGINT received, shutting down gracefully');
+  await overrides.stop();
   await ValkeyClient.disconnect();
   process.exit(0);
 });
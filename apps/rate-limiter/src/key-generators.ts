@@ -0,0 +1,178 @@
+import { createHash } from 'crypto';
+import { BlockList, isIP } from 'net';
+import { Request } from 'express';
+import { RateLimitKeyGenerator } from './middleware';
+
+/**
+ * Built-in key generators. Each returns a labelled key part (e.g. `ip:1.2.3.4`,
+ * `user:42`, `route:GET:/api/data`) so parts can be combined with
+ * composeKeyGenerators without colliding.
+ */
+
+export interface TrustedProxyIpKeyGeneratorOptions {
+  /** Addresses or CIDR ranges of proxies whose X-Forwarded-For entries are trusted, e.g. `10.0.0.0/8` */
+  trustedProxies: string[];
+
+  /** IPv6 clients are grouped by this prefix length, as one host usually owns a whole /64. Defaults to 64. */
+  ipv6PrefixLength?: number;
+}
+
+/**
+ * Client IP behind load balancers. X-Forwarded-For is walked from the right
+ * (closest hop) and entries are skipped while they come from a trusted proxy;
+ * the first untrusted address is the client. Entries left of it can be forged
+ * by the client and are ignored.
+ */
+export function createTrustedProxyIpKeyGenerator(
+  options: TrustedProxyIpKeyGeneratorOptions
+): RateLimitKeyGenerator {
+  const trusted = new BlockList();
+  for (const proxy of options.trustedProxies) {
+    const [address, prefix] = proxy.split('/');
+    const type = isIP(address) === 6 ? 'ipv6' : 'ipv4';
+    if (prefix === undefined) {
+      trusted.addAddress(address, type);
+    } else {
+      trusted.addSubnet(address, parseInt(prefix, 10), type);
+    }
+  }
+  const ipv6PrefixLength = options.ipv6PrefixLength ?? 64;
+
+  const isTrusted = (address: string) =>
+    trusted.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+
+  return (req: Request) => {
+    const forwardedFor = req.headers['x-forwarded-for'];
+    const hops = (
+      Array.isArray(forwardedFor) ? forwardedFor.join(',') : forwardedFor || ''
+    )
+      .split(',')
+      .map(hop => normalizeIp(hop.trim()))
+      .filter(hop => isIP(hop) !== 0);
+
+    let client = normalizeIp(req.socket.remoteAddress || '');
+    while (client && isIP(client) !== 0 && isTrusted(client) && hops.length) {
+      client = hops.pop()!;
+    }
+
+    if (isIP(client) === 0) {
+      return 'ip:unknown';
+    }
+    return isIP(client) === 6
+      ? `ip:${ipv6Prefix(client, ipv6PrefixLength)}`
+      : `ip:${client}`;
+  };
+}
+
+export interface HeaderKeyGeneratorOptions {
+  /** Label of the key part. Defaults to the header name. */
+  label?: string;
+
+  /** Store a SHA-256 digest instead of the raw value, for secrets such as API keys */
+  hashValue?: boolean;
+
+  /** Used when the header is missing. Defaults to `<label>:anonymous`. */
+  fallback?: RateLimitKeyGenerator;
+}
+
+/**
+ * Key from a request header, e.g. a tenant ID or API key.
+ */
+export function createHeaderKeyGenerator(
+  headerName: string,
+  options: HeaderKeyGeneratorOptions = {}
+): RateLimitKeyGenerator {
+  const label = options.label || headerName.toLowerCase();
+
+  return (req: Request) => {
+    const value = req.get(headerName);
+    if (!value) {
+      return options.fallback ? options.fallback(req) : `${label}:anonymous`;
+    }
+    return `${label}:${options.hashValue ? sha256(value) : value}`;
+  };
+}
+
+/**
+ * Key from the `X-API-Key` header. The key is hashed so API keys are never
+ * stored in Valkey in plain text.
+ */
+export function createApiKeyKeyGenerator(
+  fallback?: RateLimitKeyGenerator
+): RateLimitKeyGenerator {
+  return createHeaderKeyGenerator('X-API-Key', {
+    label: 'apikey',
+    hashValue: true,
+    fallback,
+  });
+}
+
+/**
+ * Key from the authenticated user, as resolved by `getUserId` (e.g. from
+ * `res.locals` or a session populated by an auth middleware).
+ */
+export function createUserKeyGenerator(
+  getUserId: (req: Request) => string | undefined,
+  fallback?: RateLimitKeyGenerator
+): RateLimitKeyGenerator {
+  return (req: Request) => {
+    const userId = getUserId(req);
+    if (!userId) {
+      return fallback ? fallback(req) : 'user:anonymous';
+    }
+    return `user:${userId}`;
+  };
+}
+
+/**
+ * Key from the HTTP method and matched route pattern. The pattern (e.g.
+ * `/api/users/:id`) is used rather than the path so each route gets one bucket,
+ * not one per parameter value.
+ */
+export const RouteKeyGenerator: RateLimitKeyGenerator = (req: Request) => {
+  const path = req.route?.path ?? req.path;
+  return `route:${req.method}:${req.baseUrl}${path}`;
+};
+
+/**
+ * Joins the key parts of several generators, e.g. per user per route:
+ * `composeKeyGenerators(userKeyGenerator, RouteKeyGenerator)`.
+ */
+export function composeKeyGenerators(
+  ...generators: RateLimitKeyGenerator[]
+): RateLimitKeyGenerator {
+  return (req: Request) => generators.map(generate => generate(req)).join(':');
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, 32);
+}
+
+function normalizeIp(address: string): string {
+  // IPv4 clients on a dual-stack socket show up as IPv4-mapped IPv6
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  return mapped ? mapped[1] : address;
+}
+
+function ipv6Prefix(address: string, prefixLength: number): string {
+  const [head, tail = ''] = address.split('%')[0].split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = (tail ? tail.split(':') : []).flatMap(group => {
+    // Embedded IPv4 tail, e.g. 64:ff9b::192.0.2.1
+    if (!group.includes('.')) return [group];
+    const [a, b, c, d] = group.split('.').map(Number);
+    return [((a << 8) | b).toString(16), ((c << 8) | d).toString(16)];
+  });
+  const groups = [
+    ...headGroups,
+    ...Array(8 - headGroups.length - tailGroups.length).fill('0'),
+    ...tailGroups,
+  ].map(group => parseInt(group, 16));
+
+  const masked = groups.map((group, i) => {
+    const bits = Math.min(16, Math.max(0, prefixLength - i * 16));
+    return bits === 0 ? 0 : group & (0xffff << (16 - bits)) & 0xffff;
+  });
+
+  return `${masked.map(group => group.toString(16)).join(':')}/${prefixLength}`;
+}
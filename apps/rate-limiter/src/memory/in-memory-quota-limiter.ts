@@ -0,0 +1,112 @@
+import { RateLimiter, RateLimitResult } from '../models';
+import { calendarPeriod, CalendarPeriodUnit } from '../calendar-periods';
+
+interface InMemoryQuotaLimiterOptions {
+  period: CalendarPeriodUnit;
+  requestLimit: number;
+  /** IANA time zone whose midnight starts a period. Defaults to `UTC`. */
+  timeZone?: string;
+  /** First day of a week period, 0 = Sunday. Defaults to 1 (Monday). */
+  weekStartsOn?: number;
+  /** Upper bound on tracked keys; keys of past periods are swept once it is reached. Defaults to 10000. */
+  maxKeys?: number;
+}
+
+interface QuotaEntry {
+  periodEnd: number;
+  used: number;
+}
+
+/**
+ * Process-local calendar quota: one counter per key, reset when the period
+ * containing it ends. Unlike a sliding log, memory does not grow with the
+ * quota, which can be large for month-long periods.
+ *
+ * State is not shared between instances and starts empty, so usage from
+ * before an outage is not counted. Intended as a fallback while Valkey is
+ * unavailable, not as the primary limiter.
+ */
+export class InMemoryQuotaLimiter implements RateLimiter {
+  private period: CalendarPeriodUnit;
+  private quota: number;
+  private timeZone: string;
+  private weekStartsOn: number;
+  private maxKeys: number;
+  private counters = new Map<string, QuotaEntry>();
+
+  constructor(options: InMemoryQuotaLimiterOptions) {
+    this.period = options.period;
+    this.quota = options.requestLimit;
+    this.timeZone = options.timeZone || 'UTC';
+    this.weekStartsOn = options.weekStartsOn ?? 1;
+    this.maxKeys = options.maxKeys ?? 10000;
+  }
+
+  async acquirePermit(key: string, cost = 1): Promise<RateLimitResult> {
+    return this.evaluate(key, cost, true);
+  }
+
+  async inspect(key: string, cost = 1): Promise<RateLimitResult> {
+    return this.evaluate(key, cost, false);
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key);
+  }
+
+  private evaluate(
+    key: string,
+    cost: number,
+    consume: boolean
+  ): RateLimitResult {
+    const now = Date.now();
+    const { start, end } = calendarPeriod(
+      now,
+      this.period,
+      this.timeZone,
+      this.weekStartsOn
+    );
+
+    const entry = this.counters.get(key);
+    const used = entry && entry.periodEnd === end ? entry.used : 0;
+    const result = {
+      requestLimit: this.quota,
+      windowMs: end - start,
+      resetAt: end,
+    };
+
+    if (used + cost > this.quota) {
+      const retryAfterMs = end - now;
+      return {
+        ...result,
+        allowed: false,
+        remainingRequests: Math.max(0, this.quota - used),
+        retryAfterSeconds: Math.ceil(retryAfterMs / 1000),
+        retryAfterMs,
+      };
+    }
+
+    if (consume) {
+      if (!entry && this.counters.size >= this.maxKeys) {
+        this.sweep(now);
+      }
+      this.counters.set(key, { periodEnd: end, used: used + cost });
+    }
+
+    return {
+      ...result,
+      allowed: true,
+      remainingRequests: this.quota - used - (consume ? cost : 0),
+      retryAfterSeconds: 0,
+      retryAfterMs: 0,
+    };
+  }
+
+  private sweep(now: number): void {
+    for (const [key, entry] of this.counters) {
+      if (entry.periodEnd <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
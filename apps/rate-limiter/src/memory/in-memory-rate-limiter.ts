@@ -0,0 +1,111 @@
+import { RateLimiter, RateLimitResult } from '../models';
+
+interface InMemoryRateLimiterOptions {
+  windowMs: number;
+  requestLimit: number;
+  /** Upper bound on tracked keys; expired keys are swept once it is reached. Defaults to 10000. */
+  maxKeys?: number;
+}
+
+/**
+ * Process-local sliding window log limiter.
+ *
+ * State is not shared between instances, so with N instances a client can get
+ * up to N × requestLimit requests per window. Intended as a fallback while
+ * Valkey is unavailable, not as the primary limiter.
+ */
+export class InMemoryRateLimiter implements RateLimiter {
+  private windowMs: number;
+  private reqLimit: number;
+  private maxKeys: number;
+  private windows = new Map<string, number[]>();
+
+  constructor(options: InMemoryRateLimiterOptions) {
+    this.windowMs = options.windowMs;
+    this.reqLimit = options.requestLimit;
+    this.maxKeys = options.maxKeys ?? 10000;
+  }
+
+  async acquirePermit(key: string, cost = 1): Promise<RateLimitResult> {
+    return this.evaluate(key, cost, true);
+  }
+
+  async inspect(key: string, cost = 1): Promise<RateLimitResult> {
+    return this.evaluate(key, cost, false);
+  }
+
+  async reset(key: string): Promise<void> {
+    this.windows.delete(key);
+  }
+
+  private evaluate(
+    key: string,
+    cost: number,
+    consume: boolean
+  ): RateLimitResult {
+    const now = Date.now();
+    const windowStart = now - this.windowMs;
+
+    const timestamps = (this.windows.get(key) || []).filter(
+      t => t > windowStart
+    );
+
+    if (timestamps.length + cost > this.reqLimit) {
+      this.windows.set(key, timestamps);
+      // Wait until enough of the oldest entries expire to fit this request
+      const excess = Math.min(
+        timestamps.length + cost - this.reqLimit,
+        timestamps.length
+      );
+      const retryAfterMs =
+        excess > 0
+          ? Math.max(0, timestamps[excess - 1] + this.windowMs - now)
+          : 0;
+      return {
+        allowed: false,
+        remainingRequests: Math.max(0, this.reqLimit - timestamps.length),
+        retryAfterSeconds: Math.ceil(retryAfterMs / 1000),
+        retryAfterMs,
+        requestLimit: this.reqLimit,
+        windowMs: this.windowMs,
+      };
+    }
+
+    if (!consume) {
+      return {
+        allowed: true,
+        remainingRequests: this.reqLimit - timestamps.length,
+        retryAfterSeconds: 0,
+        retryAfterMs: 0,
+        requestLimit: this.reqLimit,
+        windowMs: this.windowMs,
+      };
+    }
+
+    if (!this.windows.has(key) && this.windows.size >= this.maxKeys) {
+      this.sweep(windowStart);
+    }
+
+    for (let i = 0; i < cost; i++) {
+      timestamps.push(now);
+    }
+    this.windows.set(key, timestamps);
+
+    return {
+      allowed: true,
+      remainingRequests: this.reqLimit - timestamps.length,
+      retryAfterSeconds: 0,
+      retryAfterMs: 0,
+      requestLimit: this.reqLimit,
+      windowMs: this.windowMs,
+    };
+  }
+
+  private sweep(windowStart: number): void {
+    for (const [key, timestamps] of this.windows) {
+      if (timestamps[timestamps.length - 1] <= windowStart) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,208 @@
+import {
+  RateLimiter,
+  RateLimitResult,
+  TopUpNotSupportedError,
+} from '../models';
+
+interface LocalPreCheckRateLimiterOptions {
+  limiter: RateLimiter;
+
+  /** Longest a denial is answered locally, even when the limiter reported a later retry. Defaults to 1s. */
+  maxDeniedMs?: number;
+
+  /** Units taken from the limiter at once and handed out locally. Defaults to 1 (no batching). */
+  batchSize?: number;
+
+  /** How long locally held units stay usable before being discarded. Defaults to 1s. */
+  batchTtlMs?: number;
+
+  /** Upper bound on tracked keys; expired entries are swept once it is reached. Defaults to 10000. */
+  maxKeys?: number;
+}
+
+interface DeniedEntry {
+  until: number;
+  /** Smallest cost the denial applies to; a cheaper request may still fit */
+  cost: number;
+  decidedAt: number;
+  result: RateLimitResult;
+}
+
+interface BatchEntry {
+  units: number;
+  expiresAt: number;
+  decidedAt: number;
+  result: RateLimitResult;
+}
+
+/**
+ * In-process tier in front of another limiter, so hot keys are answered
+ * without a Valkey round trip:
+ *
+ * - A denial is remembered until its retry-after (capped at `maxDeniedMs`), and
+ *   repeated requests for the key are rejected locally in the meantime.
+ * - With `batchSize` > 1, units are taken from the limiter in batches and
+ *   handed out locally.
+ *
+ * The accuracy loss is bounded. A cached denial can only be wrong when quota
+ * frees up early (a reset or an override), and for at most `maxDeniedMs`.
+ * Batched units are counted by the limiter before they are used, so other
+ * instances may be rejected early by up to `batchSize - 1` units per instance
+ * and key, and units may be admitted up to `batchTtlMs` after the limiter
+ * granted them. Locally decided results carry `localDecision` describing this.
+ */
+export class LocalPreCheckRateLimiter implements RateLimiter {
+  private limiter: RateLimiter;
+  private maxDeniedMs: number;
+  private batchSize: number;
+  private batchTtlMs: number;
+  private maxKeys: number;
+  private denied = new Map<string, DeniedEntry>();
+  private batches = new Map<string, BatchEntry>();
+  // Batch requests in flight, shared by concurrent misses on the same key so
+  // that a batch is never replaced before its units are spent
+  private batchFetches = new Map<string, Promise<RateLimitResult>>();
+
+  constructor(options: LocalPreCheckRateLimiterOptions) {
+    this.limiter = options.limiter;
+    this.maxDeniedMs = options.maxDeniedMs ?? 1000;
+    this.batchSize = options.batchSize ?? 1;
+    this.batchTtlMs = options.batchTtlMs ?? 1000;
+    this.maxKeys = options.maxKeys ?? 10000;
+  }
+
+  async acquirePermit(key: string, cost = 1): Promise<RateLimitResult> {
+    const now = Date.now();
+
+    const denied = this.denied.get(key);
+    if (denied && denied.until > now && cost >= denied.cost) {
+      const retryAfterMs = denied.until - now;
+      return {
+        ...denied.result,
+        retryAfterSeconds: Math.ceil(retryAfterMs / 1000),
+        retryAfterMs,
+        localDecision: {
+          reason: 'denied-cache',
+          ageMs: now - denied.decidedAt,
+          unusedUnits: 0,
+        },
+      };
+    }
+
+    const batch = this.batches.get(key);
+    if (batch && batch.expiresAt > now && batch.units >= cost) {
+      batch.units -= cost;
+      return {
+        ...batch.result,
+        remainingRequests: batch.result.remainingRequests + batch.units,
+        localDecision: {
+          reason: 'batch',
+          ageMs: now - batch.decidedAt,
+          unusedUnits: batch.units,
+        },
+      };
+    }
+    this.batches.delete(key);
+
+    if (this.batchSize > cost) {
+      const pending = this.batchFetches.get(key);
+      if (pending) {
+        const fetched = await pending.catch(() => undefined);
+        if (fetched?.allowed) {
+          // Take a unit from the batch that just arrived, or fetch the next
+          return this.acquirePermit(key, cost);
+        }
+        // No quota left for a whole batch; fall through to a single request
+      } else {
+        const result = await this.fetchBatch(key, cost, now);
+        if (result) {
+          return result;
+        }
+      }
+    }
+
+    const result = await this.limiter.acquirePermit(key, cost);
+    if (!result.allowed && result.retryAfterMs > 0) {
+      this.remember(this.denied, key, {
+        until: now + Math.min(result.retryAfterMs, this.maxDeniedMs),
+        cost,
+        decidedAt: now,
+        result,
+      });
+    }
+    return result;
+  }
+
+  async inspect(key: string, cost = 1): Promise<RateLimitResult> {
+    return this.limiter.inspect(key, cost);
+  }
+
+  async reset(key: string): Promise<void> {
+    this.denied.delete(key);
+    this.batches.delete(key);
+    await this.limiter.reset(key);
+  }
+
+  async topUp(key: string, units: number): Promise<RateLimitResult> {
+    if (!this.limiter.topUp) {
+      throw new TopUpNotSupportedError();
+    }
+    this.denied.delete(key);
+    return this.limiter.topUp(key, units);
+  }
+
+  /**
+   * Takes a whole batch from the limiter, keeping all but `cost` units.
+   * Returns undefined when no quota is left for a whole batch.
+   */
+  private async fetchBatch(
+    key: string,
+    cost: number,
+    now: number
+  ): Promise<RateLimitResult | undefined> {
+    const fetch = this.limiter.acquirePermit(key, this.batchSize);
+    this.batchFetches.set(key, fetch);
+    try {
+      const result = await fetch;
+      if (result.allowed) {
+        this.remember(this.batches, key, {
+          units: this.batchSize - cost,
+          expiresAt: now + this.batchTtlMs,
+          decidedAt: now,
+          result,
+        });
+        return {
+          ...result,
+          remainingRequests: result.remainingRequests + this.batchSize - cost,
+        };
+      }
+      return undefined;
+    } finally {
+      this.batchFetches.delete(key);
+    }
+  }
+
+  private remember<T extends { decidedAt: number }>(
+    entries: Map<string, T>,
+    key: string,
+    entry: T
+  ): void {
+    if (!entries.has(key) && entries.size >= this.maxKeys) {
+      this.sweep(entry.decidedAt);
+    }
+    entries.set(key, entry);
+  }
+
+  private sweep(now: number): void {
+    for (const [key, entry] of this.denied) {
+      if (entry.until <= now) {
+        this.denied.delete(key);
+      }
+    }
+    for (const [key, entry] of this.batches) {
+      if (entry.expiresAt <= now) {
+        this.batches.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { Request, Response } from 'express';
+import { Counter, Histogram, Registry } from 'prom-client';
+import { RateLimitMetricLabels, RateLimitMetricsRecorder } from './middleware';
+
+/**
+ * Prometheus metrics for createRateLimitMiddleware, labelled by rule (the
+ * middleware's policy name) and limiter type:
+ *
+ * - `rate_limit_decisions_total{rule, limiter, decision, source, mode}`
+ * - `rate_limit_limiter_call_duration_seconds{rule, limiter, outcome}`
+ * - `rate_limit_errors_total{rule, limiter, reason}`
+ * - `rate_limit_fail_open_total{rule, limiter}`
+ */
+export class PrometheusRateLimitMetrics implements RateLimitMetricsRecorder {
+  readonly registry: Registry;
+  private decisions: Counter;
+  private callDuration: Histogram;
+  private errors: Counter;
+  private failOpen: Counter;
+
+  constructor(registry = new Registry()) {
+    this.registry = registry;
+
+    this.decisions = new Counter({
+      name: 'rate_limit_decisions_total',
+      help: 'Rate limit decisions, by outcome and what made them',
+      labelNames: ['rule', 'limiter', 'decision', 'source', 'mode'],
+      registers: [registry],
+    });
+    this.callDuration = new Histogram({
+      name: 'rate_limit_limiter_call_duration_seconds',
+      help: 'Latency of rate limiter calls to Valkey',
+      labelNames: ['rule', 'limiter', 'outcome'],
+      buckets: [0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 1],
+      registers: [registry],
+    });
+    this.errors = new Counter({
+      name: 'rate_limit_errors_total',
+      help: 'Rate limiter failures, including calls skipped by an open circuit',
+      labelNames: ['rule', 'limiter', 'reason'],
+      registers: [registry],
+    });
+    this.failOpen = new Counter({
+      name: 'rate_limit_fail_open_total',
+      help: 'Requests let through unchecked because the rate limiter failed',
+      labelNames: ['rule', 'limiter'],
+      registers: [registry],
+    });
+  }
+
+  observeLimiterCall(
+    labels: RateLimitMetricLabels,
+    durationSeconds: number,
+    outcome: 'success' | 'error'
+  ): void {
+    this.callDuration.observe(
+      { ...this.toPrometheusLabels(labels), outcome },
+      durationSeconds
+    );
+  }
+
+  countDecision(
+    labels: RateLimitMetricLabels,
+    decision: { allowed: boolean; source: string; shadow: boolean }
+  ): void {
+    this.decisions.inc({
+      ...this.toPrometheusLabels(labels),
+      decision: decision.allowed ? 'allowed' : 'denied',
+      source: decision.source,
+      mode: decision.shadow ? 'shadow' : 'enforce',
+    });
+  }
+
+  countError(labels: RateLimitMetricLabels, reason: string): void {
+    this.errors.inc({ ...this.toPrometheusLabels(labels), reason });
+  }
+
+  countFailOpen(labels: RateLimitMetricLabels): void {
+    this.failOpen.inc(this.toPrometheusLabels(labels));
+  }
+
+  /** Express handler serving the metrics in the Prometheus text format. */
+  handler() {
+    return async (req: Request, res: Response): Promise<void> => {
+      try {
+        res.set('Content-Type', this.registry.contentType);
+        res.end(await this.registry.metrics());
+      } catch (error) {
+        res.status(500).end(error instanceof Error ? error.message : '');
+      }
+    };
+  }
+
+  private toPrometheusLabels(labels: RateLimitMetricLabels) {
+    return { rule: labels.policyName, limiter: labels.limiterType };
+  }
+}
@@ -1,42 +1,395 @@
 import { Request, Response, NextFunction } from 'express';
-import { RateLimiter } from './models';
+import { performance } from 'perf_hooks';
+import {
+  ConcurrencyLimiter,
+  ConcurrencyPermit,
+  RateLimiter,
+  RateLimitResult,
+} from './models';
+import { RateLimitHeaderStyle, setRateLimitHeaders } from './headers';
+import { CircuitBreaker, CircuitOpenError } from './circuit-breaker';
+import { ShadowRejectionTracker } from './shadow-rejection-tracker';
 
 export type RateLimitKeyGenerator = (req: Request) => string;
 
+/** Returns how many units of quota a request consumes, e.g. a GraphQL query cost. */
+export type RateLimitCostFunction = (req: Request) => number;
+
 export const IpAddressKeyGenerator: RateLimitKeyGenerator = (req: Request) => {
   return req.socket.remoteAddress || 'unknown';
 };
 
+/**
+ * What to do when the rate limiter cannot reach a decision (e.g. Valkey is down):
+ * - `open`: let the request through without rate limiting
+ * - `closed`: reject the request with 503 Service Unavailable
+ * - `fallback`: decide with `fallbackLimiter`, typically an InMemoryRateLimiter
+ */
+export type FailurePolicy = 'open' | 'closed' | 'fallback';
+
+export interface FailurePolicyEvent {
+  key: string;
+  policy: FailurePolicy;
+  /** `circuit-open` when Valkey was skipped because the circuit breaker is open */
+  reason: 'error' | 'circuit-open';
+  error: unknown;
+}
+
+export interface RateLimitResultEvent {
+  req: Request;
+  key: string;
+  cost: number;
+  result: RateLimitResult;
+  /** Set for decisions of a shadow policy, whose requests an enforced policy usually sees too */
+  shadow: boolean;
+}
+
+export interface RateLimitMetricLabels {
+  policyName: string;
+  limiterType: string;
+}
+
+/**
+ * Receives the middleware's measurements, e.g. PrometheusRateLimitMetrics.
+ */
+export interface RateLimitMetricsRecorder {
+  /** A rate limiter call completed or failed. Not called for in-process decisions or while the circuit is open. */
+  observeLimiterCall(
+    labels: RateLimitMetricLabels,
+    durationSeconds: number,
+    outcome: 'success' | 'error'
+  ): void;
+
+  /**
+   * A request was allowed or denied. `source` tells what decided: the rate
+   * limiter, its in-process tier (`local`) or the fallback limiter.
+   */
+  countDecision(
+    labels: RateLimitMetricLabels,
+    decision: {
+      allowed: boolean;
+      source: 'limiter' | 'local' | 'fallback';
+      shadow: boolean;
+    }
+  ): void;
+
+  countError(
+    labels: RateLimitMetricLabels,
+    reason: FailurePolicyEvent['reason']
+  ): void;
+
+  /** A request was let through unchecked because the rate limiter failed. */
+  countFailOpen(labels: RateLimitMetricLabels): void;
+}
+
+export interface RateLimitMiddlewareOptions {
+  /** Prefix of every rate limit key in Valkey. Defaults to `rate_limit:`. */
+  keyPrefix?: string;
+
+  /** Rate limit response headers to send. Defaults to `legacy`. */
+  headers?: RateLimitHeaderStyle;
+
+  /** Policy name used in the IETF draft `RateLimit` headers. Defaults to `default`. */
+  policyName?: string;
+
+  /** Cost of each request, rounded up to a whole number of at least 1. Defaults to 1. */
+  cost?: RateLimitCostFunction;
+
+  /** Behaviour when the rate limiter fails. Defaults to `open`. */
+  failurePolicy?: FailurePolicy;
+
+  /** Limiter consulted when failurePolicy is `fallback`. */
+  fallbackLimiter?: RateLimiter;
+
+  /** Circuit breaker around the rate limiter. A default one is created unless `false`. */
+  circuitBreaker?: CircuitBreaker | false;
+
+  /** Called every time the failure policy is applied. */
+  onFailurePolicy?: (event: FailurePolicyEvent) => void;
+
+  /** Called with every rate limit decision, e.g. to track usage. */
+  onRateLimitResult?: (event: RateLimitResultEvent) => void;
+
+  /**
+   * Evaluate the limiter without enforcing it, to see who a new limit would
+   * block before rolling it out. Every request is passed on immediately and
+   * no rate limit headers are sent.
+   */
+  shadow?: boolean;
+
+  /** Records would-be rejections in shadow mode, per policy name and key. */
+  shadowRejections?: ShadowRejectionTracker;
+
+  /** Records decisions, latency and errors, e.g. for Prometheus. */
+  metrics?: RateLimitMetricsRecorder;
+
+  /** Limiter type reported in metrics. Defaults to the limiter's class name. */
+  limiterType?: string;
+}
+
 export function createRateLimitMiddleware(
   rateLimiter: RateLimiter,
-  keyGenerator?: RateLimitKeyGenerator
+  keyGenerator?: RateLimitKeyGenerator,
+  options: RateLimitMiddlewareOptions = {}
 ) {
   const keyGen = keyGenerator || IpAddressKeyGenerator;
+  const keyPrefix = options.keyPrefix ?? 'rate_limit:';
+  const headerStyle = options.headers || 'legacy';
+  const policyName = options.policyName || 'default';
+  const failurePolicy = options.failurePolicy || 'open';
+  const breaker =
+    options.circuitBreaker === false
+      ? undefined
+      : options.circuitBreaker || new CircuitBreaker();
 
-  return async (req: Request, res: Response, next: NextFunction) => {
-    const key = `rate_limit:${keyGen(req)}`;
+  if (failurePolicy === 'fallback' && !options.fallbackLimiter) {
+    throw new Error('fallbackLimiter is required for the fallback policy');
+  }
 
+  const metrics = options.metrics;
+  const metricLabels: RateLimitMetricLabels = {
+    policyName,
+    limiterType: options.limiterType || rateLimiter.constructor.name,
+  };
+
+  const acquirePermit = async (key: string, cost: number) => {
+    const startedAt = performance.now();
+    const elapsedSeconds = () => (performance.now() - startedAt) / 1000;
     try {
-      const result = await rateLimiter.acquirePermit(key);
+      const result = await (breaker
+        ? breaker.execute(() => rateLimiter.acquirePermit(key, cost))
+        : rateLimiter.acquirePermit(key, cost));
+      if (!result.localDecision) {
+        metrics?.observeLimiterCall(metricLabels, elapsedSeconds(), 'success');
+      }
+      return result;
+    } catch (error) {
+      if (error instanceof CircuitOpenError) {
+        metrics?.countError(metricLabels, 'circuit-open');
+      } else {
+        metrics?.observeLimiterCall(metricLabels, elapsedSeconds(), 'error');
+        metrics?.countError(metricLabels, 'error');
+      }
+      throw error;
+    }
+  };
 
+  return async (req: Request, res: Response, next: NextFunction) => {
+    let key: string;
+    let cost: number;
+    try {
+      key = `${keyPrefix}${keyGen(req)}`;
+      cost = options.cost ? Math.max(1, Math.ceil(options.cost(req))) : 1;
+    } catch (error) {
+      // E.g. a cost function choking on a malformed body. Express 4 does not
+      // catch rejections of async handlers, so the request would hang.
+      if (options.shadow) {
+        console.error('Shadow rate limiter error:', error);
+        next();
+      } else {
+        next(error);
+      }
+      return;
+    }
+
+    let result: RateLimitResult;
+
+    if (options.shadow) {
+      next();
+
+      try {
+        result = await acquirePermit(key, cost);
+      } catch (error) {
+        if (!(error instanceof CircuitOpenError)) {
+          console.error('Shadow rate limiter error:', error);
+        }
+        return;
+      }
+
+      metrics?.countDecision(metricLabels, {
+        allowed: result.allowed,
+        source: result.localDecision ? 'local' : 'limiter',
+        shadow: true,
+      });
+      options.onRateLimitResult?.({ req, key, cost, result, shadow: true });
       if (!result.allowed) {
-        res.status(429).json({
-          error: 'Too Many Requests',
-          message: 'Rate limit exceeded',
-          retryAfter: result.retryAfterSeconds,
+        options.shadowRejections?.record(policyName, key);
+      }
+      return;
+    }
+
+    let source: 'limiter' | 'local' | 'fallback' = 'limiter';
+    try {
+      result = await acquirePermit(key, cost);
+      if (result.localDecision) {
+        source = 'local';
+      }
+    } catch (error) {
+      const reason =
+        error instanceof CircuitOpenError ? 'circuit-open' : 'error';
+      if (reason === 'error') {
+        console.error('Rate limiter error:', error);
+      }
+      options.onFailurePolicy?.({ key, policy: failurePolicy, reason, error });
+
+      if (failurePolicy === 'open') {
+        metrics?.countFailOpen(metricLabels);
+        next();
+        return;
+      }
+
+      if (failurePolicy === 'closed') {
+        res.status(503).json({
+          error: 'Service Unavailable',
+          message: 'Rate limiter unavailable',
         });
         return;
       }
 
-      res.set({
-        'X-RateLimit-Limit': result.requestLimit.toString(),
-        'X-RateLimit-Remaining': result.remainingRequests.toString(),
+      try {
+        result = await options.fallbackLimiter!.acquirePermit(key, cost);
+        source = 'fallback';
+      } catch (fallbackError) {
+        next(fallbackError);
+        return;
+      }
+    }
+
+    metrics?.countDecision(metricLabels, {
+      allowed: result.allowed,
+      source,
+      shadow: false,
+    });
+    options.onRateLimitResult?.({ req, key, cost, result, shadow: false });
+    setRateLimitHeaders(res, result, headerStyle, policyName);
+
+    if (!result.allowed) {
+      res.status(429).json({
+        error: 'Too Many Requests',
+        message: 'Rate limit exceeded',
+        retryAfter: result.retryAfterSeconds,
+        retryAfterMs: result.retryAfterMs,
+        tier: result.bindingTier,
       });
+      return;
+    }
 
-      next();
+    next();
+  };
+}
+
+export interface ConcurrencyLimitMiddlewareOptions {
+  /** Prefix of every concurrency key in Valkey. Defaults to `concurrency:`. */
+  keyPrefix?: string;
+
+  /** Response headers to send, reporting free slots. Defaults to `legacy`. */
+  headers?: RateLimitHeaderStyle;
+
+  /** Policy name used in the IETF draft `RateLimit` headers. Defaults to `default`. */
+  policyName?: string;
+
+  /** Behaviour when the limiter fails. Defaults to `open`. */
+  failurePolicy?: Exclude<FailurePolicy, 'fallback'>;
+
+  /** Circuit breaker around the limiter. A default one is created unless `false`. */
+  circuitBreaker?: CircuitBreaker | false;
+
+  /** Called every time the failure policy is applied. */
+  onFailurePolicy?: (event: FailurePolicyEvent) => void;
+}
+
+/**
+ * Holds one of the key's concurrency slots while the handler runs. The slot
+ * is released when the response finishes or the connection closes, and its
+ * lease is renewed for as long as the request is in flight.
+ */
+export function createConcurrencyLimitMiddleware(
+  limiter: ConcurrencyLimiter,
+  keyGenerator?: RateLimitKeyGenerator,
+  options: ConcurrencyLimitMiddlewareOptions = {}
+) {
+  const keyGen = keyGenerator || IpAddressKeyGenerator;
+  const keyPrefix = options.keyPrefix ?? 'concurrency:';
+  const headerStyle = options.headers || 'legacy';
+  const policyName = options.policyName || 'default';
+  const failurePolicy = options.failurePolicy || 'open';
+  const breaker =
+    options.circuitBreaker === false
+      ? undefined
+      : options.circuitBreaker || new CircuitBreaker();
+
+  const acquire = (key: string) =>
+    breaker
+      ? breaker.execute(() => limiter.acquire(key))
+      : limiter.acquire(key);
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = `${keyPrefix}${keyGen(req)}`;
+
+    let permit: ConcurrencyPermit;
+    try {
+      permit = await acquire(key);
     } catch (error) {
-      console.error('Rate limiter error:', error);
-      next();
+      const reason =
+        error instanceof CircuitOpenError ? 'circuit-open' : 'error';
+      if (reason === 'error') {
+        console.error('Concurrency limiter error:', error);
+      }
+      options.onFailurePolicy?.({ key, policy: failurePolicy, reason, error });
+
+      if (failurePolicy === 'open') {
+        next();
+        return;
+      }
+
+      res.status(503).json({
+        error: 'Service Unavailable',
+        message: 'Concurrency limiter unavailable',
+      });
+      return;
+    }
+
+    setRateLimitHeaders(res, permit, headerStyle, policyName);
+
+    if (!permit.allowed) {
+      res.status(429).json({
+        error: 'Too Many Requests',
+        message: 'Concurrency limit exceeded',
+        retryAfter: permit.retryAfterSeconds,
+        retryAfterMs: permit.retryAfterMs,
+      });
+      return;
     }
+
+    const leaseId = permit.leaseId!;
+    const renewTimer = setInterval(() => {
+      limiter
+        .renew(key, leaseId)
+        .then(renewed => {
+          if (!renewed) {
+            console.warn(`Concurrency lease lost for ${key}`);
+            clearInterval(renewTimer);
+          }
+        })
+        .catch(error => {
+          console.error('Concurrency lease renewal error:', error);
+        });
+    }, permit.leaseMs / 2);
+    renewTimer.unref();
+
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      clearInterval(renewTimer);
+      // On failure the lease simply expires
+      limiter.release(key, leaseId).catch(error => {
+        console.error('Concurrency slot release error:', error);
+      });
+    };
+    res.once('finish', release);
+    res.once('close', release);
+
+    next();
   };
 }
@@ -1,5 +1,62 @@
 export interface RateLimiter {
-  acquirePermit(key: string): Promise<RateLimitResult>;
+  /**
+   * Attempts to consume `cost` units of the key's quota (1 by default).
+   * Costs are positive integers, e.g. a GraphQL query cost or an export's row count.
+   */
+  acquirePermit(key: string, cost?: number): Promise<RateLimitResult>;
+
+  /**
+   * Reports the key's current state without consuming quota. `allowed` tells
+   * whether a request of `cost` would be admitted right now, and
+   * remainingRequests is the quota left before any request is counted.
+   */
+  inspect(key: string, cost?: number): Promise<RateLimitResult>;
+
+  /** Clears all state held for the key, restoring its full quota. */
+  reset(key: string): Promise<void>;
+
+  /**
+   * Adds `units` to the key's quota for the rest of the current period.
+   * Only supported by quota limiters such as CalendarQuotaLimiter.
+   */
+  topUp?(key: string, units: number): Promise<RateLimitResult>;
+}
+
+/**
+ * Thrown by `topUp` when the key's limiter has no quota to top up.
+ */
+export class TopUpNotSupportedError extends Error {
+  constructor() {
+    super('The limiter does not support quota top-ups');
+    this.name = 'TopUpNotSupportedError';
+  }
+}
+
+/**
+ * Limits how many requests per key are in flight at once, rather than how many
+ * arrive per window. Every acquired slot must be released.
+ */
+export interface ConcurrencyLimiter {
+  /** Attempts to take one of the key's slots. */
+  acquire(key: string): Promise<ConcurrencyPermit>;
+
+  /** Extends a held slot's lease, for requests outliving it. Returns false when the lease was lost. */
+  renew(key: string, leaseId: string): Promise<boolean>;
+
+  /** Frees a held slot. */
+  release(key: string, leaseId: string): Promise<void>;
+}
+
+/**
+ * Result of a concurrency slot acquisition. remainingRequests is the number
+ * of free slots and requestLimit the maximum number of slots.
+ */
+export interface ConcurrencyPermit extends RateLimitResult {
+  /** Identifies the acquired slot. Only set when allowed is true. */
+  leaseId?: string;
+
+  /** How long the slot is held unless renewed, in milliseconds */
+  leaseMs: number;
 }
 
 /**
@@ -9,12 +66,44 @@ export interface RateLimitResult {
   /** Whether the request is allowed (true) or rate limited (false) */
   allowed: boolean;
 
-  /** Number of requests remaining in the current window. 0 when rate limited. */
+  /** Number of units remaining in the current window. Less than the request's cost when rate limited. */
   remainingRequests: number;
 
   /** Number of seconds to wait before retrying. Only relevant when allowed is false. */
   retryAfterSeconds: number;
 
+  /** Number of milliseconds until a permit frees up. Only relevant when allowed is false. */
+  retryAfterMs: number;
+
   /** Maximum number of requests allowed in the current window */
   requestLimit: number;
+
+  /** Length of the window that requestLimit applies to, in milliseconds */
+  windowMs: number;
+
+  /** Name of the tier that was the binding constraint, for limiters with several tiers */
+  bindingTier?: string;
+
+  /** Unix time (ms) when the quota resets, for limiters with calendar-aligned periods */
+  resetAt?: number;
+
+  /** Set when the decision was made in-process by LocalPreCheckRateLimiter, without asking Valkey */
+  localDecision?: LocalDecision;
+}
+
+/**
+ * How an in-process decision may differ from the one Valkey would have made.
+ */
+export interface LocalDecision {
+  /**
+   * - `denied-cache`: the key was denied recently and its retry-after has not passed
+   * - `batch`: a unit from a batch this instance took from Valkey earlier
+   */
+  reason: 'denied-cache' | 'batch';
+
+  /** Age of the Valkey decision this one relies on, in milliseconds */
+  ageMs: number;
+
+  /** Units counted by Valkey that this instance holds but has not admitted yet */
+  unusedUnits: number;
 }
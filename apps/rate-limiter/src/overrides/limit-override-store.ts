@@ -0,0 +1,144 @@
+import Redis from 'ioredis';
+import { LimiterConfig } from '../rules/rules';
+
+interface LimitOverrideStoreOptions {
+  redis: Redis;
+  /** Hash holding one field per overridden key. Defaults to `rate_limit:overrides`. */
+  hashKey?: string;
+  /** Pub/sub channel announcing changed keys. Defaults to `rate_limit:overrides:changed`. */
+  channel?: string;
+  /** How long a lookup is cached locally, as a backstop for missed invalidations. Defaults to 5s. */
+  cacheTtlMs?: number;
+  /** Upper bound on cached lookups; expired ones are swept, then the oldest dropped, once it is reached. Defaults to 10000. */
+  maxKeys?: number;
+}
+
+interface CachedOverride {
+  config: LimiterConfig | undefined;
+  expiresAt: number;
+}
+
+/**
+ * Per-key limit overrides persisted in a Valkey hash, so a customer's limit
+ * can be changed at runtime without a redeploy.
+ *
+ * Lookups are cached locally (including "no override", which is by far the
+ * most common answer). Every change is published on a pub/sub channel and
+ * each instance drops its cached copy on receipt, so changes take effect
+ * across the fleet almost immediately. Messages sent while the subscriber
+ * was disconnected are lost, so the whole cache is dropped when it
+ * reconnects.
+ */
+export class LimitOverrideStore {
+  private redis: Redis;
+  private subscriber?: Redis;
+  private readonly hashKey: string;
+  private readonly channel: string;
+  private readonly cacheTtlMs: number;
+  private readonly maxKeys: number;
+  private cache = new Map<string, CachedOverride>();
+  // Bumped on every invalidation, so a lookup that was in flight meanwhile
+  // does not cache what it read
+  private invalidations = 0;
+
+  constructor(options: LimitOverrideStoreOptions) {
+    this.redis = options.redis;
+    this.hashKey = options.hashKey || 'rate_limit:overrides';
+    this.channel = options.channel || 'rate_limit:overrides:changed';
+    this.cacheTtlMs = options.cacheTtlMs ?? 5000;
+    this.maxKeys = options.maxKeys ?? 10000;
+  }
+
+  /**
+   * Subscribes to invalidation messages. A subscribed connection cannot issue
+   * other commands, so a dedicated connection is used.
+   */
+  async start(): Promise<void> {
+    this.subscriber = this.redis.duplicate();
+    this.subscriber.on('message', (channel: string, key: string) => {
+      if (channel === this.channel) {
+        this.invalidate(key);
+      }
+    });
+    // ioredis resubscribes on reconnect, but what was published meanwhile
+    // never arrives
+    this.subscriber.on('ready', () => this.invalidateAll());
+    await this.subscriber.subscribe(this.channel);
+  }
+
+  async stop(): Promise<void> {
+    if (this.subscriber) {
+      await this.subscriber.quit();
+      this.subscriber = undefined;
+    }
+  }
+
+  async get(key: string): Promise<LimiterConfig | undefined> {
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.config;
+    }
+
+    const generation = this.invalidations;
+    const raw = await this.redis.hget(this.hashKey, key);
+    const config = raw ? (JSON.parse(raw) as LimiterConfig) : undefined;
+    if (generation === this.invalidations) {
+      this.remember(key, config);
+    }
+    return config;
+  }
+
+  async list(): Promise<Record<string, LimiterConfig>> {
+    const all = await this.redis.hgetall(this.hashKey);
+    return Object.fromEntries(
+      Object.entries(all).map(([key, raw]) => [key, JSON.parse(raw)])
+    );
+  }
+
+  async set(key: string, config: LimiterConfig): Promise<void> {
+    await this.redis.hset(this.hashKey, key, JSON.stringify(config));
+    await this.publishChange(key);
+  }
+
+  /** Returns false when the key had no override. */
+  async delete(key: string): Promise<boolean> {
+    const removed = await this.redis.hdel(this.hashKey, key);
+    await this.publishChange(key);
+    return removed > 0;
+  }
+
+  private async publishChange(key: string): Promise<void> {
+    this.invalidate(key);
+    await this.redis.publish(this.channel, key);
+  }
+
+  private invalidate(key: string): void {
+    this.invalidations++;
+    this.cache.delete(key);
+  }
+
+  private invalidateAll(): void {
+    this.invalidations++;
+    this.cache.clear();
+  }
+
+  private remember(key: string, config: LimiterConfig | undefined): void {
+    const now = Date.now();
+    if (!this.cache.has(key) && this.cache.size >= this.maxKeys) {
+      this.sweep(now);
+      if (this.cache.size >= this.maxKeys) {
+        // Maps iterate in insertion order, so this is the oldest lookup
+        this.cache.delete(this.cache.keys().next().value as string);
+      }
+    }
+    this.cache.set(key, { config, expiresAt: now + this.cacheTtlMs });
+  }
+
+  private sweep(now: number): void {
+    for (const [key, cached] of this.cache) {
+      if (cached.expiresAt <= now) {
+        this.cache.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import Redis from 'ioredis';
+import {
+  RateLimiter,
+  RateLimitResult,
+  TopUpNotSupportedError,
+} from '../models';
+import { LimiterConfig } from '../rules/rules';
+import { createLimiter } from '../rules/limiter-factory';
+import { LimitOverrideStore } from './limit-override-store';
+
+interface OverridableRateLimiterOptions {
+  redis: Redis;
+  limiter: RateLimiter;
+  overrides: LimitOverrideStore;
+}
+
+/**
+ * Applies a key's runtime override, if one exists, instead of the configured
+ * limiter.
+ *
+ * Overridden keys are tracked under `<key>:override:<type>`, so an override
+ * starts with a fresh quota and can use a different limiter type than the
+ * rule without clashing with the rule's data structure.
+ */
+export class OverridableRateLimiter implements RateLimiter {
+  private redis: Redis;
+  private limiter: RateLimiter;
+  private overrides: LimitOverrideStore;
+  private overrideLimiters = new Map<string, RateLimiter>();
+
+  constructor(options: OverridableRateLimiterOptions) {
+    this.redis = options.redis;
+    this.limiter = options.limiter;
+    this.overrides = options.overrides;
+  }
+
+  async acquirePermit(key: string, cost?: number): Promise<RateLimitResult> {
+    const override = await this.overrides.get(key);
+    if (!override) {
+      return this.limiter.acquirePermit(key, cost);
+    }
+
+    return this.limiterFor(override).acquirePermit(
+      `${key}:override:${override.type}`,
+      cost
+    );
+  }
+
+  async inspect(key: string, cost?: number): Promise<RateLimitResult> {
+    const override = await this.overrides.get(key);
+    if (!override) {
+      return this.limiter.inspect(key, cost);
+    }
+
+    return this.limiterFor(override).inspect(
+      `${key}:override:${override.type}`,
+      cost
+    );
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.limiter.reset(key);
+
+    const override = await this.overrides.get(key);
+    if (override) {
+      await this.limiterFor(override).reset(`${key}:override:${override.type}`);
+    }
+  }
+
+  async topUp(key: string, units: number): Promise<RateLimitResult> {
+    const override = await this.overrides.get(key);
+    const limiter = override ? this.limiterFor(override) : this.limiter;
+    if (!limiter.topUp) {
+      throw new TopUpNotSupportedError();
+    }
+    return limiter.topUp(
+      override ? `${key}:override:${override.type}` : key,
+      units
+    );
+  }
+
+  private limiterFor(config: LimiterConfig): RateLimiter {
+    const cacheKey = JSON.stringify(config);
+    let limiter = this.overrideLimiters.get(cacheKey);
+    if (!limiter) {
+      limiter = createLimiter(this.redis, config);
+      this.overrideLimiters.set(cacheKey, limiter);
+    }
+    return limiter;
+  }
+}
@@ -0,0 +1,257 @@
+import Redis from 'ioredis';
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { RateLimiter, RateLimitResult } from './models';
+import { LuaScript } from './valkey/lua-script';
+
+interface RateLimiterClientOptions {
+  redis: Redis;
+  limiter: RateLimiter;
+  /** Pub/sub channel announcing that a queue's head moved on. Defaults to `rate_limit:queue:released`. */
+  channel?: string;
+  /** How long a waiter stays queued without checking in, so crashed workers do not block the queue. Defaults to 5s. */
+  waiterLeaseMs?: number;
+}
+
+export interface WaitForPermitOptions {
+  /** Give up after this long. Defaults to 30s. */
+  timeoutMs?: number;
+  /** Units of quota to acquire. Defaults to 1. */
+  cost?: number;
+}
+
+/**
+ * Thrown by waitForPermit when no permit could be acquired in time.
+ */
+export class PermitTimeoutError extends Error {
+  constructor(key: string, timeoutMs: number) {
+    super(`No permit for ${key} within ${timeoutMs}ms`);
+    this.name = 'PermitTimeoutError';
+  }
+}
+
+/**
+ * Thrown by waitForPermit when the cost exceeds the limit itself, so no
+ * amount of waiting could admit it.
+ */
+export class PermitCostExceedsLimitError extends Error {
+  constructor(key: string, cost: number, requestLimit: number) {
+    super(`Cost ${cost} for ${key} exceeds its limit of ${requestLimit}`);
+    this.name = 'PermitCostExceedsLimitError';
+  }
+}
+
+// Shortest sleep between the head's attempts, for limiters reporting a
+// retry-after of 0 (e.g. a cost that does not fit an otherwise empty window)
+const MIN_RETRY_MS = 50;
+
+// Removes waiters at the head of the queue whose lease ran out (their process
+// died or gave up without leaving), renews the caller's lease and reports the
+// caller's position. The caller joins the queue on its first call.
+//
+// KEYS[1] - queue ZSET (waiter ID scored by ticket number)
+// KEYS[2] - lease hash (waiter ID -> lease expiry, ms)
+// KEYS[3] - ticket counter
+// ARGV[1] - waiter ID
+// ARGV[2] - lease duration (ms)
+//
+// Returns the caller's position, 0 being the head of the queue
+const CHECK_IN_SCRIPT = new LuaScript(`
+local queue = KEYS[1]
+local leases = KEYS[2]
+local waiter = ARGV[1]
+local lease_ms = tonumber(ARGV[2])
+
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+
+if not redis.call('ZSCORE', queue, waiter) then
+  redis.call('ZADD', queue, redis.call('INCR', KEYS[3]), waiter)
+end
+redis.call('HSET', leases, waiter, now + lease_ms)
+
+while true do
+  local head = redis.call('ZRANGE', queue, 0, 0)[1]
+  if not head or head == waiter then
+    break
+  end
+  local expires_at = tonumber(redis.call('HGET', leases, head))
+  if expires_at and expires_at > now then
+    break
+  end
+  redis.call('ZREM', queue, head)
+  redis.call('HDEL', leases, head)
+end
+
+for _, key in ipairs(KEYS) do
+  redis.call('PEXPIRE', key, lease_ms * 2)
+end
+return redis.call('ZRANK', queue, waiter)
+`);
+
+/**
+ * Programmatic access to a RateLimiter for callers outside Express, such as
+ * background workers sharing a third-party API's rate limit across processes.
+ *
+ * waitForPermit queues callers in Valkey and serves them in arrival order:
+ * only the head of a key's queue asks the limiter, sleeping exactly until the
+ * reported retry-after when denied. The others sleep until notified over
+ * pub/sub that the head moved on, rather than polling the limiter.
+ *
+ * Callers that use the limiter directly (e.g. the HTTP middleware) for the
+ * same key are not queued, but still share its quota.
+ */
+export class RateLimiterClient {
+  private redis: Redis;
+  private limiter: RateLimiter;
+  private readonly channel: string;
+  private readonly waiterLeaseMs: number;
+  private subscriber?: Redis;
+  private subscribed?: Promise<unknown>;
+  private released = new EventEmitter();
+
+  constructor(options: RateLimiterClientOptions) {
+    this.redis = options.redis;
+    this.limiter = options.limiter;
+    this.channel = options.channel || 'rate_limit:queue:released';
+    this.waiterLeaseMs = options.waiterLeaseMs ?? 5000;
+    this.released.setMaxListeners(0);
+  }
+
+  /** Tries once, without waiting or queueing. */
+  async tryAcquire(key: string, cost = 1): Promise<RateLimitResult> {
+    return this.limiter.acquirePermit(key, cost);
+  }
+
+  /**
+   * Resolves once a permit for `key` is acquired. Rejects with a
+   * PermitTimeoutError when none can be acquired within `timeoutMs`, and
+   * with a PermitCostExceedsLimitError right away when `cost` exceeds the
+   * limit.
+   */
+  async waitForPermit(
+    key: string,
+    options: WaitForPermitOptions = {}
+  ): Promise<RateLimitResult> {
+    const timeoutMs = options.timeoutMs ?? 30000;
+    const cost = options.cost ?? 1;
+    const deadline = Date.now() + timeoutMs;
+    const waiter = randomUUID();
+    const queueKeys = [
+      `${key}:queue`,
+      `${key}:queue:leases`,
+      `${key}:queue:tickets`,
+    ];
+
+    await this.subscribe();
+
+    try {
+      while (true) {
+        const position = (await CHECK_IN_SCRIPT.run(this.redis, queueKeys, [
+          waiter,
+          this.waiterLeaseMs,
+        ])) as number;
+        const remainingMs = deadline - Date.now();
+
+        if (position === 0) {
+          const result = await this.limiter.acquirePermit(key, cost);
+          if (result.allowed) {
+            return result;
+          }
+          if (cost > result.requestLimit) {
+            throw new PermitCostExceedsLimitError(
+              key,
+              cost,
+              result.requestLimit
+            );
+          }
+          const retryAfterMs = Math.max(result.retryAfterMs, MIN_RETRY_MS);
+          if (retryAfterMs > remainingMs) {
+            throw new PermitTimeoutError(key, timeoutMs);
+          }
+          // Wake up in time to renew the lease if the wait is long
+          await sleep(Math.min(retryAfterMs, this.waiterLeaseMs / 3));
+          if (Date.now() >= deadline) {
+            throw new PermitTimeoutError(key, timeoutMs);
+          }
+          continue;
+        }
+
+        if (remainingMs <= 0) {
+          throw new PermitTimeoutError(key, timeoutMs);
+        }
+        await this.waitForRelease(
+          key,
+          Math.min(remainingMs, this.waiterLeaseMs / 3)
+        );
+      }
+    } finally {
+      await this.leave(key, waiter, queueKeys);
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (this.subscriber) {
+      await this.subscriber.quit();
+      this.subscriber = undefined;
+      this.subscribed = undefined;
+    }
+  }
+
+  private subscribe(): Promise<unknown> {
+    if (!this.subscribed) {
+      // A subscribed connection cannot issue other commands
+      const subscriber = this.redis.duplicate();
+      subscriber.on('message', (channel: string, key: string) => {
+        if (channel === this.channel) {
+          this.released.emit(key);
+        }
+      });
+      this.subscriber = subscriber;
+      this.subscribed = subscriber.subscribe(this.channel).catch(error => {
+        // Let the next caller subscribe again on a fresh connection
+        subscriber.disconnect();
+        if (this.subscriber === subscriber) {
+          this.subscriber = undefined;
+          this.subscribed = undefined;
+        }
+        throw error;
+      });
+    }
+    return this.subscribed;
+  }
+
+  private waitForRelease(key: string, timeoutMs: number): Promise<void> {
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        this.released.off(key, done);
+        resolve();
+      };
+      const timer = setTimeout(done, timeoutMs);
+      this.released.on(key, done);
+    });
+  }
+
+  private async leave(
+    key: string,
+    waiter: string,
+    [queueKey, leasesKey]: string[]
+  ): Promise<void> {
+    try {
+      await this.redis
+        .multi()
+        .zrem(queueKey, waiter)
+        .hdel(leasesKey, waiter)
+        .publish(this.channel, key)
+        .exec();
+    } catch (error) {
+      // The lease expires and the next waiter prunes this one
+      console.error('Failed to leave the permit queue:', error);
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,32 @@
+import Redis from 'ioredis';
+import { RateLimiter } from '../models';
+import { SlidingWindowRateLimiter } from '../valkey/sliding-window-rate-limiter';
+import { SlidingWindowCounterRateLimiter } from '../valkey/sliding-window-counter-rate-limiter';
+import { TokenBucketRateLimiter } from '../valkey/token-bucket-rate-limiter';
+import { MultiTierRateLimiter } from '../valkey/multi-tier-rate-limiter';
+import { GcraRateLimiter } from '../valkey/gcra-rate-limiter';
+import { CalendarQuotaLimiter } from '../valkey/calendar-quota-limiter';
+import { LimiterConfig } from './rules';
+
+/**
+ * Builds the Valkey-backed limiter described by a limiter config.
+ */
+export function createLimiter(
+  redis: Redis,
+  config: LimiterConfig
+): RateLimiter {
+  switch (config.type) {
+    case 'sliding-window':
+      return new SlidingWindowRateLimiter({ redis, ...config });
+    case 'sliding-window-counter':
+      return new SlidingWindowCounterRateLimiter({ redis, ...config });
+    case 'token-bucket':
+      return new TokenBucketRateLimiter({ redis, ...config });
+    case 'multi-tier':
+      return new MultiTierRateLimiter({ redis, tiers: config.tiers });
+    case 'gcra':
+      return new GcraRateLimiter({ redis, ...config });
+    case 'calendar-quota':
+      return new CalendarQuotaLimiter({ redis, ...config });
+  }
+}
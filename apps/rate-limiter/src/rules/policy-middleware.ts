@@ -0,0 +1,171 @@
+import Redis from 'ioredis';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { RateLimiter } from '../models';
+import {
+  createRateLimitMiddleware,
+  IpAddressKeyGenerator,
+  RateLimitKeyGenerator,
+  RateLimitMiddlewareOptions,
+} from '../middleware';
+import { InMemoryRateLimiter } from '../memory/in-memory-rate-limiter';
+import { InMemoryQuotaLimiter } from '../memory/in-memory-quota-limiter';
+import { LocalPreCheckRateLimiter } from '../memory/local-pre-check-rate-limiter';
+import {
+  findMatchingRule,
+  findMatchingShadowRules,
+  LimiterConfig,
+  RateLimitRule,
+} from './rules';
+import { createLimiter } from './limiter-factory';
+import { LimitOverrideStore } from '../overrides/limit-override-store';
+import { OverridableRateLimiter } from '../overrides/overridable-rate-limiter';
+
+interface RateLimitPolicyOptions {
+  redis: Redis;
+  rules: RateLimitRule[];
+  keyGenerator?: RateLimitKeyGenerator;
+
+  /** Resolves the customer plan (e.g. `free`, `pro`, `enterprise`) of a request */
+  planResolver?: (req: Request) => string | undefined;
+
+  /** Runtime per-key overrides consulted before each rule's limiter */
+  overrides?: LimitOverrideStore;
+
+  /** Options applied to every rule's middleware. `failurePolicy` is taken from the rule. */
+  middlewareOptions?: Omit<
+    RateLimitMiddlewareOptions,
+    'failurePolicy' | 'fallbackLimiter'
+  >;
+}
+
+/**
+ * Per-instance approximation of a rule's limit, used by the `fallback` failure policy.
+ */
+function createFallbackLimiter(config: LimiterConfig): RateLimiter {
+  switch (config.type) {
+    case 'sliding-window':
+    case 'sliding-window-counter':
+    case 'gcra':
+      return new InMemoryRateLimiter(config);
+    case 'token-bucket':
+      return new InMemoryRateLimiter({
+        windowMs: (config.bucketCapacity / config.refillRatePerSecond) * 1000,
+        requestLimit: config.bucketCapacity,
+      });
+    case 'calendar-quota':
+      return new InMemoryQuotaLimiter(config);
+    case 'multi-tier':
+      // The shortest window is the one that matters within a short outage
+      return new InMemoryRateLimiter(
+        config.tiers.reduce((a, b) => (a.windowMs <= b.windowMs ? a : b))
+      );
+  }
+}
+
+export interface RateLimitPolicy {
+  /**
+   * A single middleware that resolves the matching rule for each request and
+   * applies that rule's limiter. Requests matching no rule are not limited.
+   */
+  middleware: RequestHandler;
+
+  /**
+   * Finds the rule owning a full rate limit key, e.g.
+   * `rate_limit:api-free:ip:203.0.113.7`, along with its limiter.
+   */
+  findByKey(
+    key: string
+  ): { rule: RateLimitRule; limiter: RateLimiter } | undefined;
+}
+
+/**
+ * Limiters and per-rule middlewares are created once, up front.
+ */
+export function createRateLimitPolicy(
+  options: RateLimitPolicyOptions
+): RateLimitPolicy {
+  const keyGenerator = options.keyGenerator || IpAddressKeyGenerator;
+  const keyPrefix = options.middlewareOptions?.keyPrefix ?? 'rate_limit:';
+
+  const createRuleLimiter = (rule: RateLimitRule): RateLimiter => {
+    let limiter = createLimiter(options.redis, rule.limiter);
+    if (options.overrides) {
+      limiter = new OverridableRateLimiter({
+        redis: options.redis,
+        limiter,
+        overrides: options.overrides,
+      });
+    }
+    if (rule.localPreCheck) {
+      limiter = new LocalPreCheckRateLimiter({
+        limiter,
+        ...rule.localPreCheck,
+      });
+    }
+    return limiter;
+  };
+
+  const limiters = new Map(
+    options.rules.map(rule => [rule.name, createRuleLimiter(rule)])
+  );
+
+  const middlewares = new Map(
+    options.rules.map(rule => {
+      const failurePolicy = rule.failurePolicy || 'open';
+      return [
+        rule.name,
+        createRateLimitMiddleware(limiters.get(rule.name)!, keyGenerator, {
+          policyName: rule.name,
+          limiterType: rule.limiter.type,
+          ...options.middlewareOptions,
+          keyPrefix: `${keyPrefix}${rule.name}:`,
+          shadow: rule.shadow,
+          failurePolicy,
+          fallbackLimiter:
+            failurePolicy === 'fallback'
+              ? createFallbackLimiter(rule.limiter)
+              : undefined,
+        }),
+      ];
+    })
+  );
+
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    const request = {
+      method: req.method,
+      path: req.baseUrl + req.path,
+      plan: options.planResolver?.(req),
+    };
+    const rule = findMatchingRule(options.rules, request);
+
+    // Shadow rules pass the request on immediately, so they run first. Their
+    // failures must never reach the request.
+    for (const shadowRule of findMatchingShadowRules(options.rules, request)) {
+      middlewares.get(shadowRule.name)!(req, res, () => {}).catch(error =>
+        console.error('Shadow rate limiter error:', error)
+      );
+    }
+
+    if (!rule) {
+      next();
+      return;
+    }
+
+    return middlewares.get(rule.name)!(req, res, next);
+  };
+
+  const findByKey = (key: string) => {
+    const rule = options.rules.find(rule =>
+      key.startsWith(`${keyPrefix}${rule.name}:`)
+    );
+    return rule && { rule, limiter: limiters.get(rule.name)! };
+  };
+
+  return { middleware, findByKey };
+}
+
+export function createPolicyRateLimitMiddleware(
+  options: RateLimitPolicyOptions
+): RequestHandler {
+  return createRateLimitPolicy(options).middleware;
+}
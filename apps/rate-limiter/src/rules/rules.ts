@@ -0,0 +1,386 @@
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { FailurePolicy } from '../middleware';
+import { RateLimitTier } from '../valkey/multi-tier-rate-limiter';
+import { assertValidTimeZone, CalendarPeriodUnit } from '../calendar-periods';
+
+export type LimiterConfig =
+  | { type: 'sliding-window'; windowMs: number; requestLimit: number }
+  | { type: 'sliding-window-counter'; windowMs: number; requestLimit: number }
+  | {
+      type: 'token-bucket';
+      bucketCapacity: number;
+      refillRatePerSecond: number;
+    }
+  | { type: 'multi-tier'; tiers: RateLimitTier[] }
+  | { type: 'gcra'; windowMs: number; requestLimit: number; burst?: number }
+  | {
+      type: 'calendar-quota';
+      period: CalendarPeriodUnit;
+      requestLimit: number;
+      timeZone?: string;
+      weekStartsOn?: number;
+    };
+
+export type LimiterType = LimiterConfig['type'];
+
+/** See LocalPreCheckRateLimiter */
+export interface LocalPreCheckConfig {
+  maxDeniedMs?: number;
+  batchSize?: number;
+  batchTtlMs?: number;
+}
+
+/**
+ * A rate limit rule. Rules are evaluated in order and the first match applies.
+ */
+export interface RateLimitRule {
+  /** Unique rule name, used in the Valkey key so rules never share quota */
+  name: string;
+
+  /** Route pattern: `/api/data`, `/api/users/:id` or a trailing wildcard `/api/*` */
+  path: string;
+
+  /** HTTP methods the rule applies to. All methods when omitted. */
+  methods?: string[];
+
+  /** Customer plans the rule applies to, e.g. `free`. All plans when omitted. */
+  plans?: string[];
+
+  limiter: LimiterConfig;
+
+  /** Behaviour when Valkey is unavailable. Defaults to `open`. */
+  failurePolicy?: FailurePolicy;
+
+  /**
+   * Only record who the rule would reject, without enforcing it. Shadow rules
+   * are evaluated in addition to the first matching enforced rule.
+   */
+  shadow?: boolean;
+
+  /** Answer known-denied keys (and optionally batched permits) in-process, without Valkey */
+  localPreCheck?: LocalPreCheckConfig;
+}
+
+/**
+ * Thrown when a rules file is malformed. Lists every problem found, so all of
+ * them can be fixed in one go.
+ */
+export class RateLimitRulesError extends Error {
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(
+      `Invalid rate limit rules in ${source}:\n${issues.map(i => `  - ${i}`).join('\n')}`
+    );
+    this.name = 'RateLimitRulesError';
+    this.issues = issues;
+  }
+}
+
+const RULE_FIELDS = [
+  'name',
+  'path',
+  'methods',
+  'plans',
+  'limiter',
+  'failurePolicy',
+  'shadow',
+  'localPreCheck',
+];
+
+// Required positive numbers, per limiter type
+const LIMITER_PARAMS: Record<LimiterType, string[]> = {
+  'sliding-window': ['windowMs', 'requestLimit'],
+  'sliding-window-counter': ['windowMs', 'requestLimit'],
+  'token-bucket': ['bucketCapacity', 'refillRatePerSecond'],
+  'multi-tier': [],
+  gcra: ['windowMs', 'requestLimit'],
+  'calendar-quota': ['requestLimit'],
+};
+
+// Other fields, validated separately, per limiter type
+const LIMITER_OTHER_PARAMS: Record<LimiterType, string[]> = {
+  'sliding-window': [],
+  'sliding-window-counter': [],
+  'token-bucket': [],
+  'multi-tier': ['tiers'],
+  gcra: ['burst'],
+  'calendar-quota': ['period', 'timeZone', 'weekStartsOn'],
+};
+
+const TIER_PARAMS = ['name', 'windowMs', 'requestLimit'];
+
+const CALENDAR_PERIODS: CalendarPeriodUnit[] = ['day', 'week', 'month'];
+
+const FAILURE_POLICIES: FailurePolicy[] = ['open', 'closed', 'fallback'];
+
+const LOCAL_PRE_CHECK_PARAMS = ['maxDeniedMs', 'batchSize', 'batchTtlMs'];
+
+/**
+ * Loads rules from a `.json`, `.yaml` or `.yml` file. The file holds a
+ * `rules` list; see rate-limit-rules.yaml for an example.
+ */
+export function loadRateLimitRules(filePath: string): RateLimitRule[] {
+  const content = readFileSync(filePath, 'utf8');
+  const document =
+    extname(filePath) === '.json' ? JSON.parse(content) : parseYaml(content);
+
+  return validateRateLimitRules(document, filePath);
+}
+
+export function validateRateLimitRules(
+  document: unknown,
+  source = 'rules'
+): RateLimitRule[] {
+  const issues: string[] = [];
+  const rules = isObject(document) ? document.rules : undefined;
+
+  if (!Array.isArray(rules)) {
+    throw new RateLimitRulesError(source, ['expected a `rules` list']);
+  }
+
+  const names = new Set<string>();
+  rules.forEach((rule: unknown, index) => {
+    const at = `rules[${index}]`;
+    if (!isObject(rule)) {
+      issues.push(`${at}: expected an object`);
+      return;
+    }
+
+    // A misspelt field would otherwise be ignored, e.g. `method` turning a
+    // method-scoped rule into one matching every method
+    for (const field of Object.keys(rule)) {
+      if (!RULE_FIELDS.includes(field)) {
+        issues.push(
+          `${at}.${field}: expected one of ${RULE_FIELDS.join(', ')}`
+        );
+      }
+    }
+
+    if (typeof rule.name !== 'string' || rule.name === '') {
+      issues.push(`${at}.name: expected a non-empty string`);
+    } else if (names.has(rule.name)) {
+      issues.push(`${at}.name: duplicate rule name "${rule.name}"`);
+    } else {
+      names.add(rule.name);
+    }
+
+    if (typeof rule.path !== 'string' || !rule.path.startsWith('/')) {
+      issues.push(`${at}.path: expected a route pattern starting with "/"`);
+    }
+
+    for (const field of ['methods', 'plans']) {
+      const value = rule[field];
+      if (
+        value !== undefined &&
+        (!Array.isArray(value) || value.some(v => typeof v !== 'string'))
+      ) {
+        issues.push(`${at}.${field}: expected a list of strings`);
+      }
+    }
+
+    if (
+      rule.failurePolicy !== undefined &&
+      !FAILURE_POLICIES.includes(rule.failurePolicy as FailurePolicy)
+    ) {
+      issues.push(
+        `${at}.failurePolicy: expected one of ${FAILURE_POLICIES.join(', ')}`
+      );
+    }
+
+    if (rule.shadow !== undefined && typeof rule.shadow !== 'boolean') {
+      issues.push(`${at}.shadow: expected a boolean`);
+    }
+
+    if (rule.localPreCheck !== undefined) {
+      if (!isObject(rule.localPreCheck)) {
+        issues.push(`${at}.localPreCheck: expected an object`);
+      } else {
+        for (const [param, value] of Object.entries(rule.localPreCheck)) {
+          if (!LOCAL_PRE_CHECK_PARAMS.includes(param)) {
+            issues.push(
+              `${at}.localPreCheck.${param}: expected one of ${LOCAL_PRE_CHECK_PARAMS.join(', ')}`
+            );
+          } else if (!isPositiveNumber(value)) {
+            issues.push(
+              `${at}.localPreCheck.${param}: expected a positive number`
+            );
+          }
+        }
+      }
+    }
+
+    issues.push(...validateLimiterConfig(rule.limiter, `${at}.limiter`));
+  });
+
+  if (issues.length > 0) {
+    throw new RateLimitRulesError(source, issues);
+  }
+
+  return rules as RateLimitRule[];
+}
+
+/**
+ * Returns the problems found in a limiter config, each prefixed with `at`.
+ */
+export function validateLimiterConfig(
+  limiter: unknown,
+  at = 'limiter'
+): string[] {
+  if (!isObject(limiter)) {
+    return [`${at}: expected an object`];
+  }
+
+  const type = limiter.type as LimiterType;
+  // Not `in`, which also accepts inherited names such as "toString"
+  if (typeof type !== 'string' || !Object.hasOwn(LIMITER_PARAMS, type)) {
+    return [
+      `${at}.type: expected one of ${Object.keys(LIMITER_PARAMS).join(', ')}`,
+    ];
+  }
+
+  const issues = LIMITER_PARAMS[type]
+    .filter(param => !isPositiveNumber(limiter[param]))
+    .map(param => `${at}.${param}: expected a positive number`);
+
+  const params = [
+    'type',
+    ...LIMITER_PARAMS[type],
+    ...LIMITER_OTHER_PARAMS[type],
+  ];
+  for (const param of Object.keys(limiter)) {
+    if (!params.includes(param)) {
+      issues.push(
+        `${at}.${param}: not a ${type} parameter, expected one of ${params.join(', ')}`
+      );
+    }
+  }
+
+  if (type === 'gcra' && limiter.burst !== undefined) {
+    if (!isPositiveNumber(limiter.burst)) {
+      issues.push(`${at}.burst: expected a positive number`);
+    }
+  }
+
+  if (type === 'calendar-quota') {
+    if (!CALENDAR_PERIODS.includes(limiter.period as CalendarPeriodUnit)) {
+      issues.push(
+        `${at}.period: expected one of ${CALENDAR_PERIODS.join(', ')}`
+      );
+    }
+    if (limiter.timeZone !== undefined && !isTimeZone(limiter.timeZone)) {
+      issues.push(`${at}.timeZone: expected an IANA time zone`);
+    }
+    if (
+      limiter.weekStartsOn !== undefined &&
+      ![0, 1, 2, 3, 4, 5, 6].includes(limiter.weekStartsOn as number)
+    ) {
+      issues.push(`${at}.weekStartsOn: expected 0 (Sunday) to 6 (Saturday)`);
+    }
+  }
+
+  if (type === 'multi-tier') {
+    if (!Array.isArray(limiter.tiers) || limiter.tiers.length === 0) {
+      issues.push(`${at}.tiers: expected a non-empty list`);
+    } else {
+      limiter.tiers.forEach((tier: unknown, index) => {
+        if (!isObject(tier) || typeof tier.name !== 'string') {
+          issues.push(`${at}.tiers[${index}].name: expected a string`);
+          return;
+        }
+        for (const param of ['windowMs', 'requestLimit']) {
+          if (!isPositiveNumber(tier[param])) {
+            issues.push(
+              `${at}.tiers[${index}].${param}: expected a positive number`
+            );
+          }
+        }
+        for (const param of Object.keys(tier)) {
+          if (!TIER_PARAMS.includes(param)) {
+            issues.push(
+              `${at}.tiers[${index}].${param}: expected one of ${TIER_PARAMS.join(', ')}`
+            );
+          }
+        }
+      });
+    }
+  }
+
+  return issues;
+}
+
+interface RuleRequest {
+  method: string;
+  path: string;
+  plan?: string;
+}
+
+/**
+ * Returns the first enforced rule matching the request, or undefined when no
+ * rule applies. Shadow rules are skipped.
+ */
+export function findMatchingRule(
+  rules: RateLimitRule[],
+  request: RuleRequest
+): RateLimitRule | undefined {
+  return rules.find(rule => !rule.shadow && ruleMatches(rule, request));
+}
+
+/**
+ * Returns every shadow rule matching the request.
+ */
+export function findMatchingShadowRules(
+  rules: RateLimitRule[],
+  request: RuleRequest
+): RateLimitRule[] {
+  return rules.filter(rule => rule.shadow && ruleMatches(rule, request));
+}
+
+function ruleMatches(rule: RateLimitRule, request: RuleRequest): boolean {
+  return (
+    (!rule.methods ||
+      rule.methods.some(m => m.toUpperCase() === request.method)) &&
+    (!rule.plans ||
+      (request.plan !== undefined && rule.plans.includes(request.plan))) &&
+    compilePathPattern(rule.path).test(request.path)
+  );
+}
+
+const compiledPatterns = new Map<string, RegExp>();
+
+function compilePathPattern(pattern: string): RegExp {
+  let regex = compiledPatterns.get(pattern);
+  if (!regex) {
+    const source = pattern
+      .split('/')
+      .map(segment => {
+        if (segment === '*') return '.*';
+        if (segment.startsWith(':')) return '[^/]+';
+        return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('/');
+    regex = new RegExp(`^${source}/?$`);
+    compiledPatterns.set(pattern, regex);
+  }
+  return regex;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isTimeZone(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    assertValidTimeZone(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isPositiveNumber(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
@@ -0,0 +1,57 @@
+import Redis from 'ioredis';
+import { BucketedCounter } from './bucketed-counter';
+
+interface ShadowRejectionTrackerOptions {
+  redis: Redis;
+  /** Sorted sets are named `<keyPrefix><minute>`. Defaults to `rate_limit:shadow:`. */
+  keyPrefix?: string;
+}
+
+export interface ShadowRejectionSummary {
+  minutes: number;
+  total: number;
+  byRule: Record<string, number>;
+  keys: Array<{ rule: string; key: string; rejections: number }>;
+}
+
+/**
+ * Counts the requests a rule in shadow mode would have rejected, per rule and
+ * key, in per-minute buckets kept for an hour.
+ */
+export class ShadowRejectionTracker {
+  private counter: BucketedCounter;
+
+  constructor(options: ShadowRejectionTrackerOptions) {
+    this.counter = new BucketedCounter({
+      redis: options.redis,
+      keyPrefix: options.keyPrefix || 'rate_limit:shadow:',
+      bucketMs: 60 * 1000,
+      retainedBuckets: 60,
+    });
+  }
+
+  record(rule: string, key: string): void {
+    // Both parts may contain any character, so encode them unambiguously
+    this.counter.increment(JSON.stringify([rule, key]));
+  }
+
+  /** Summarizes the would-be rejections of the last `minutes` minutes (at most 60). */
+  async summary(minutes = 60): Promise<ShadowRejectionSummary> {
+    const buckets = Math.min(minutes, this.counter.maxBuckets);
+    const totals = await this.counter.sum(buckets);
+
+    const summary: ShadowRejectionSummary = {
+      minutes: buckets,
+      total: 0,
+      byRule: {},
+      keys: [],
+    };
+    for (const { member, count } of totals) {
+      const [rule, key] = JSON.parse(member) as [string, string];
+      summary.total += count;
+      summary.byRule[rule] = (summary.byRule[rule] || 0) + count;
+      summary.keys.push({ rule, key, rejections: count });
+    }
+    return summary;
+  }
+}
@@ -0,0 +1,190 @@
+import Redis from 'ioredis';
+import { RateLimiter, RateLimitResult } from '../models';
+import {
+  CalendarPeriod,
+  calendarPeriod,
+  CalendarPeriodUnit,
+} from '../calendar-periods';
+import { LuaScript } from './lua-script';
+
+interface CalendarQuotaLimiterOptions {
+  redis: Redis;
+  /** Calendar period the quota applies to */
+  period: CalendarPeriodUnit;
+  /** Units allowed per period, before top-ups */
+  requestLimit: number;
+  /** IANA time zone whose midnight starts a period, e.g. `America/New_York`. Defaults to `UTC`. */
+  timeZone?: string;
+  /** First day of a week period, 0 = Sunday. Defaults to 1 (Monday). */
+  weekStartsOn?: number;
+}
+
+// Picks the period containing the server time (TIME) from the candidates
+// computed by the caller around its own clock, so an app host skewed by less
+// than a period cannot count a request against the wrong period around a
+// boundary. Unlike the other limiters, this one still depends on the host
+// clock: Lua has no time zone data to compute the periods itself.
+//
+// ARGV[first], ARGV[first+1], ARGV[first+2], ... - period id, start (ms),
+// end (ms) of consecutive periods
+const PICK_PERIOD = `
+local function pick_period(first)
+  local time = redis.call('TIME')
+  local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+  local i = first
+  while ARGV[i + 3] and now >= tonumber(ARGV[i + 2]) do
+    i = i + 3
+  end
+  return now, ARGV[i], tonumber(ARGV[i + 1]), tonumber(ARGV[i + 2])
+end
+`;
+
+// The quota hash holds the period it belongs to, the units used and the
+// units topped up. A hash from an earlier period counts as empty, and it
+// expires when its period ends.
+//
+// KEYS[1] - quota hash key
+// ARGV[1] - units allowed per period
+// ARGV[2] - cost of the request
+// ARGV[3] - 1 to count the request, 0 to only evaluate it (inspect)
+// ARGV[4...] - candidate periods, see pick_period
+//
+// Returns {allowed, remaining units, retry after (ms), quota incl. top-ups,
+//          period start (ms), period end (ms)}
+const QUOTA_SCRIPT = new LuaScript(`${PICK_PERIOD}
+local key = KEYS[1]
+local limit = tonumber(ARGV[1])
+local cost = tonumber(ARGV[2])
+local consume = ARGV[3] == '1'
+local now, period, period_start, period_end = pick_period(4)
+
+local state = redis.call('HMGET', key, 'period', 'used', 'top_up')
+local used = 0
+local top_up = 0
+if state[1] == period then
+  used = tonumber(state[2]) or 0
+  top_up = tonumber(state[3]) or 0
+end
+local quota = limit + top_up
+
+if used + cost > quota then
+  return {0, math.max(0, quota - used), period_end - now, quota, period_start, period_end}
+end
+
+if not consume then
+  return {1, quota - used, 0, quota, period_start, period_end}
+end
+
+if state[1] ~= period then
+  redis.call('DEL', key)
+  redis.call('HSET', key, 'period', period)
+end
+redis.call('HINCRBY', key, 'used', cost)
+redis.call('PEXPIREAT', key, period_end)
+return {1, quota - used - cost, 0, quota, period_start, period_end}
+`);
+
+// Adds units to the quota of the current period only.
+//
+// KEYS[1] - quota hash key
+// ARGV[1] - units to add
+// ARGV[2...] - candidate periods, see pick_period
+const TOP_UP_SCRIPT = new LuaScript(`${PICK_PERIOD}
+local key = KEYS[1]
+local now, period, period_start, period_end = pick_period(2)
+
+if redis.call('HGET', key, 'period') ~= period then
+  redis.call('DEL', key)
+  redis.call('HSET', key, 'period', period)
+end
+redis.call('HINCRBY', key, 'top_up', tonumber(ARGV[1]))
+redis.call('PEXPIREAT', key, period_end)
+return 1
+`);
+
+/**
+ * Quota per calendar day, week or month, e.g. "100k calls per calendar month"
+ * for a billing plan. Periods start at local midnight in the configured time
+ * zone, and `RateLimitResult.resetAt` reports when the current one ends.
+ *
+ * Quotas can be topped up for the rest of the current period with `topUp`.
+ */
+export class CalendarQuotaLimiter implements RateLimiter {
+  private redis: Redis;
+  private period: CalendarPeriodUnit;
+  private quota: number;
+  private timeZone: string;
+  private weekStartsOn: number;
+
+  constructor(options: CalendarQuotaLimiterOptions) {
+    this.redis = options.redis;
+    this.period = options.period;
+    this.quota = options.requestLimit;
+    this.timeZone = options.timeZone || 'UTC';
+    this.weekStartsOn = options.weekStartsOn ?? 1;
+  }
+
+  async acquirePermit(key: string, cost = 1): Promise<RateLimitResult> {
+    return this.evaluate(key, cost, true);
+  }
+
+  async inspect(key: string, cost = 1): Promise<RateLimitResult> {
+    return this.evaluate(key, cost, false);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.redis.del(key);
+  }
+
+  /**
+   * Adds `units` to the key's quota until the current period ends, and
+   * returns the key's state afterwards.
+   */
+  async topUp(key: string, units: number): Promise<RateLimitResult> {
+    await TOP_UP_SCRIPT.run(this.redis, [key], [units, ...this.periodArgs()]);
+    return this.inspect(key);
+  }
+
+  private async evaluate(
+    key: string,
+    cost: number,
+    consume: boolean
+  ): Promise<RateLimitResult> {
+    const [allowed, remaining, retryAfterMs, quota, periodStart, periodEnd] =
+      (await QUOTA_SCRIPT.run(
+        this.redis,
+        [key],
+        [this.quota, cost, consume ? 1 : 0, ...this.periodArgs()]
+      )) as [number, number, number, number, number, number];
+
+    return {
+      allowed: allowed === 1,
+      remainingRequests: remaining,
+      retryAfterSeconds: Math.ceil(retryAfterMs / 1000),
+      retryAfterMs,
+      requestLimit: quota,
+      windowMs: periodEnd - periodStart,
+      resetAt: periodEnd,
+    };
+  }
+
+  /** The previous, current and next period by this host's clock */
+  private periodArgs(): Array<string | number> {
+    const current = this.calendarPeriod(Date.now());
+    const periods: CalendarPeriod[] = [
+      this.calendarPeriod(current.start - 1),
+      current,
+      this.calendarPeriod(current.end),
+    ];
+    return periods.flatMap(p => [p.id, p.start, p.end]);
+  }
+
+  private calendarPeriod(timestamp: number): CalendarPeriod {
+    return calendarPeriod(
+      timestamp,
+      this.period,
+      this.timeZone,
+      this.weekStartsOn
+    );
+  }
+}
@@ -0,0 +1,135 @@
+import Redis from 'ioredis';
+import { randomUUID } from 'crypto';
+import { ConcurrencyLimiter, ConcurrencyPermit } from '../models';
+import { LuaScript } from './lua-script';
+
+interface ValkeyConcurrencyLimiterOptions {
+  redis: Redis;
+  /** Maximum number of in-flight requests per key */
+  maxConcurrent: number;
+  /** How long a slot is held without being renewed, so slots of crashed instances free up. Defaults to 30s. */
+  leaseMs?: number;
+  /** Retry hint sent to rejected clients, as slots free up at no predictable time. Defaults to 1s. */
+  retryAfterMs?: number;
+}
+
+// Drops expired leases, then takes a slot when one is free. Each lease is a
+// ZSET member scored by its expiry time, so a slot held by an instance that
+// crashed before releasing it is reclaimed once its lease runs out. Expiry is
+// measured with the server's clock (TIME), so all instances agree on it.
+//
+// KEYS[1] - leases ZSET key
+// ARGV[1] - lease duration (ms)
+// ARGV[2] - maximum concurrent leases
+// ARGV[3] - lease ID
+//
+// Returns {acquired, number of leases held before this request}
+const ACQUIRE_SCRIPT = new LuaScript(`
+local key = KEYS[1]
+local lease_ms = tonumber(ARGV[1])
+local limit = tonumber(ARGV[2])
+
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+
+redis.call('ZREMRANGEBYSCORE', key, '-inf', now)
+local count = redis.call('ZCARD', key)
+
+if count >= limit then
+  return {0, count}
+end
+
+redis.call('ZADD', key, now + lease_ms, ARGV[3])
+-- Every lease expires by now + lease_ms, so the set can go with the last one
+redis.call('PEXPIRE', key, lease_ms)
+return {1, count}
+`);
+
+// Pushes a held lease's expiry back. A lease that already expired (and may
+// have been reclaimed by another request) is not revived.
+//
+// KEYS[1] - leases ZSET key
+// ARGV[1] - lease duration (ms)
+// ARGV[2] - lease ID
+//
+// Returns 1 when the lease was renewed, 0 when it was lost
+const RENEW_SCRIPT = new LuaScript(`
+local key = KEYS[1]
+local lease_ms = tonumber(ARGV[1])
+
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+
+local expires_at = redis.call('ZSCORE', key, ARGV[2])
+if not expires_at or tonumber(expires_at) <= now then
+  return 0
+end
+
+redis.call('ZADD', key, now + lease_ms, ARGV[2])
+redis.call('PEXPIRE', key, lease_ms)
+return 1
+`);
+
+/**
+ * Distributed concurrency limiter: at most `maxConcurrent` requests per key
+ * hold a slot at any time, across all instances.
+ */
+export class ValkeyConcurrencyLimiter implements ConcurrencyLimiter {
+  private redis: Redis;
+  private maxConcurrent: number;
+  private leaseMs: number;
+  private retryAfterMs: number;
+
+  constructor(options: ValkeyConcurrencyLimiterOptions) {
+    this.redis = options.redis;
+    this.maxConcurrent = options.maxConcurrent;
+    this.leaseMs = options.leaseMs ?? 30 * 1000;
+    this.retryAfterMs = options.retryAfterMs ?? 1000;
+  }
+
+  async acquire(key: string): Promise<ConcurrencyPermit> {
+    const leaseId = randomUUID();
+
+    const [acquired, heldCount] = (await ACQUIRE_SCRIPT.run(
+      this.redis,
+      [key],
+      [this.leaseMs, this.maxConcurrent, leaseId]
+    )) as [number, number];
+
+    if (acquired !== 1) {
+      return {
+        allowed: false,
+        remainingRequests: 0,
+        retryAfterSeconds: Math.ceil(this.retryAfterMs / 1000),
+        retryAfterMs: this.retryAfterMs,
+        requestLimit: this.maxConcurrent,
+        windowMs: this.leaseMs,
+        leaseMs: this.leaseMs,
+      };
+    }
+
+    return {
+      allowed: true,
+      remainingRequests: this.maxConcurrent - heldCount - 1,
+      retryAfterSeconds: 0,
+      retryAfterMs: 0,
+      requestLimit: this.maxConcurrent,
+      windowMs: this.leaseMs,
+      leaseId,
+      leaseMs: this.leaseMs,
+    };
+  }
+
+  async renew(key: string, leaseId: string): Promise<boolean> {
+    const renewed = await RENEW_SCRIPT.run(
+      this.redis,
+      [key],
+      [this.leaseMs, leaseId]
+    );
+    return renewed === 1;
+  }
+
+  async release(key: string, leaseId: string): Promise<void> {
+    await this.redis.zrem(key, leaseId);
+  }
+}
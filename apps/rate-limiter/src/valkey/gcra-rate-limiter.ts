@@ -0,0 +1,120 @@
+import Redis from 'ioredis';
+import { RateLimiter, RateLimitResult } from '../models';
+import { LuaScript } from './lua-script';
+
+interface GcraRateLimiterOptions {
+  redis: Redis;
+  /** Requests allowed per window, on average */
+  requestLimit: number;
+  windowMs: number;
+  /** Requests that may arrive back to back. Defaults to requestLimit. */
+  burst?: number;
+}
+
+// Generic cell rate algorithm. The only state is the key's theoretical arrival
+// time (TAT): when the key would next be "caught up" if requests were spaced
+// exactly one emission interval apart. A request is admitted when the TAT it
+// would push forward stays within the burst tolerance of now.
+//
+// Time is read from the server (TIME), so skewed app host clocks cannot make
+// instances disagree about a key's state.
+//
+// KEYS[1] - TAT key
+// ARGV[1] - emission interval (ms, may be fractional)
+// ARGV[2] - burst (requests)
+// ARGV[3] - cost of the request
+// ARGV[4] - 1 to record the request, 0 to only evaluate it (inspect)
+//
+// Returns {allowed, remaining requests before this one, retry after (ms)}
+const GCRA_SCRIPT = new LuaScript(`
+local key = KEYS[1]
+local interval = tonumber(ARGV[1])
+local burst = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local consume = ARGV[4] == '1'
+
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + tonumber(time[2]) / 1000
+local tolerance = interval * burst
+
+local tat = tonumber(redis.call('GET', key)) or now
+if tat < now then
+  tat = now
+end
+
+-- The epsilon keeps floating point error from hiding a whole request
+local remaining = math.floor((tolerance - (tat - now)) / interval + 1e-9)
+local new_tat = tat + cost * interval
+local allow_at = new_tat - tolerance
+
+if allow_at > now then
+  -- A cost above the burst can never fit; report the time until fully caught up
+  local retry_after_ms = allow_at - now
+  if cost > burst then
+    retry_after_ms = tat - now
+  end
+  return {0, remaining, math.ceil(retry_after_ms)}
+end
+
+if consume then
+  redis.call('SET', key, string.format('%.3f', new_tat), 'PX', math.ceil(new_tat - now))
+end
+return {1, remaining, 0}
+`);
+
+/**
+ * GCRA rate limiter.
+ *
+ * Behaves like a token bucket holding `burst` tokens that refills at
+ * `requestLimit` per `windowMs`, but stores a single timestamp per key, which
+ * suits high-cardinality keys such as per-device limits. Requests are spaced
+ * smoothly and retry-after values are exact.
+ */
+export class GcraRateLimiter implements RateLimiter {
+  private redis: Redis;
+  private intervalMs: number;
+  private burst: number;
+
+  constructor(options: GcraRateLimiterOptions) {
+    this.redis = options.redis;
+    this.intervalMs = options.windowMs / options.requestLimit;
+    this.burst = options.burst ?? options.requestLimit;
+  }
+
+  async acquirePermit(key: string, cost = 1): Promise<RateLimitResult> {
+    return this.evaluate(key, cost, true);
+  }
+
+  async inspect(key: string, cost = 1): Promise<RateLimitResult> {
+    return this.evaluate(key, cost, false);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.redis.del(key);
+  }
+
+  private async evaluate(
+    key: string,
+    cost: number,
+    consume: boolean
+  ): Promise<RateLimitResult> {
+    const [allowed, remaining, retryAfterMs] = (await GCRA_SCRIPT.run(
+      this.redis,
+      [key],
+      [this.intervalMs, this.burst, cost, consume ? 1 : 0]
+    )) as [number, number, number];
+
+    return {
+      allowed: allowed === 1,
+      remainingRequests:
+        allowed === 1 && consume
+          ? Math.max(0, remaining - cost)
+          : Math.max(0, remaining),
+      retryAfterSeconds: Math.ceil(retryAfterMs / 1000),
+      retryAfterMs,
+      requestLimit: this.burst,
+      // Time for the full burst to become available again, reported as the window
+      windowMs: Math.ceil(this.intervalMs * this.burst),
+    };
+  }
+}
@@ -0,0 +1,50 @@
+import Redis from 'ioredis';
+
+/**
+ * A Lua script that is loaded into Valkey once (SCRIPT LOAD) and then invoked
+ * by its SHA1 digest (EVALSHA), so the script body is not resent on every call.
+ *
+ * If the server loses its script cache (restart, failover, SCRIPT FLUSH), the
+ * NOSCRIPT error is caught and the script is loaded again transparently.
+ */
+export class LuaScript {
+  private readonly source: string;
+  private shaPromise?: Promise<string>;
+
+  constructor(source: string) {
+    this.source = source;
+  }
+
+  async run(
+    redis: Redis,
+    keys: string[],
+    args: Array<string | number>
+  ): Promise<unknown> {
+    const sha = await this.load(redis);
+
+    try {
+      return await redis.evalsha(sha, keys.length, ...keys, ...args);
+    } catch (error) {
+      if (!(error instanceof Error) || !error.message.includes('NOSCRIPT')) {
+        throw error;
+      }
+
+      this.shaPromise = undefined;
+      const reloadedSha = await this.load(redis);
+      return redis.evalsha(reloadedSha, keys.length, ...keys, ...args);
+    }
+  }
+
+  private load(redis: Redis): Promise<string> {
+    if (!this.shaPromise) {
+      // Share one SCRIPT LOAD between concurrent first callers
+      this.shaPromise = (
+        redis.script('LOAD', this.source) as Promise<string>
+      ).catch(error => {
+        this.shaPromise = undefined;
+        throw error;
+      });
+    }
+    return this.shaPromise;
+  }
+}
@@ -0,0 +1,154 @@
+import Redis from 'ioredis';
+import { RateLimiter, RateLimitResult } from '../models';
+import { LuaScript } from './lua-script';
+
+export interface RateLimitTier {
+  /** Tier name, reported as bindingTier and used as the key suffix, e.g. `second` */
+  name: string;
+  windowMs: number;
+  requestLimit: number;
+}
+
+interface MultiTierRateLimiterOptions {
+  redis: Redis;
+  tiers: RateLimitTier[];
+}
+
+// Sliding window log over several windows at once. Every tier is checked
+// before any is written, so a request rejected by one tier does not consume
+// quota in the others. Time is read from the server (TIME).
+//
+// KEYS[i]      - sliding window ZSET of tier i
+// ARGV[1]      - unique entry member suffix
+// ARGV[2]      - cost of the request
+// ARGV[3]      - 1 to record the request, 0 to only evaluate it (inspect)
+// ARGV[2i+2]   - window size (ms) of tier i
+// ARGV[2i+3]   - request limit of tier i
+//
+// Returns {allowed, index of the binding tier (1-based), remaining requests
+//          in the binding tier, retry after (ms)}
+const MULTI_TIER_SCRIPT = new LuaScript(`
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local member = now .. '-' .. ARGV[1]
+local cost = tonumber(ARGV[2])
+local consume = ARGV[3] == '1'
+
+local counts = {}
+local denied_tier = 0
+local retry_after_ms = 0
+
+for i = 1, #KEYS do
+  local window_ms = tonumber(ARGV[2 * i + 2])
+  local limit = tonumber(ARGV[2 * i + 3])
+
+  redis.call('ZREMRANGEBYSCORE', KEYS[i], 0, now - window_ms)
+  counts[i] = redis.call('ZCARD', KEYS[i])
+
+  if counts[i] + cost > limit then
+    -- The binding tier is the one that keeps the client waiting the longest
+    local excess = math.min(counts[i] + cost - limit, counts[i])
+    local tier_retry_ms = 0
+    if excess > 0 then
+      local entry = redis.call('ZRANGE', KEYS[i], excess - 1, excess - 1, 'WITHSCORES')
+      tier_retry_ms = math.max(0, tonumber(entry[2]) + window_ms - now)
+    end
+    if denied_tier == 0 or tier_retry_ms > retry_after_ms then
+      denied_tier = i
+      retry_after_ms = tier_retry_ms
+    end
+  end
+end
+
+if denied_tier > 0 then
+  local limit = tonumber(ARGV[2 * denied_tier + 3])
+  return {0, denied_tier, math.max(0, limit - counts[denied_tier]), retry_after_ms}
+end
+
+local binding_tier = 1
+local binding_remaining = nil
+for i = 1, #KEYS do
+  local window_ms = tonumber(ARGV[2 * i + 2])
+  local limit = tonumber(ARGV[2 * i + 3])
+
+  local remaining = limit - counts[i]
+  if consume then
+    for j = 1, cost do
+      redis.call('ZADD', KEYS[i], now, member .. '-' .. j)
+    end
+    redis.call('PEXPIRE', KEYS[i], window_ms)
+    remaining = remaining - cost
+  end
+
+  if binding_remaining == nil or remaining < binding_remaining then
+    binding_tier = i
+    binding_remaining = remaining
+  end
+end
+
+return {1, binding_tier, binding_remaining, 0}
+`);
+
+/**
+ * Applies several sliding windows to the same key in a single round trip,
+ * e.g. 10 per second AND 300 per minute AND 5000 per day.
+ *
+ * The request is only recorded when every tier allows it. The result describes
+ * the binding tier: the one that rejected the request (the longest wait if
+ * several did), or the one with the fewest remaining requests.
+ */
+export class MultiTierRateLimiter implements RateLimiter {
+  private redis: Redis;
+  private tiers: RateLimitTier[];
+
+  constructor(options: MultiTierRateLimiterOptions) {
+    if (options.tiers.length === 0) {
+      throw new Error('MultiTierRateLimiter requires at least one tier');
+    }
+
+    this.redis = options.redis;
+    this.tiers = options.tiers;
+  }
+
+  async acquirePermit(key: string, cost = 1): Promise<RateLimitResult> {
+    return this.evaluate(key, cost, true);
+  }
+
+  async inspect(key: string, cost = 1): Promise<RateLimitResult> {
+    return this.evaluate(key, cost, false);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.redis.del(...this.tierKeys(key));
+  }
+
+  private tierKeys(key: string): string[] {
+    return this.tiers.map(tier => `${key}:${tier.name}`);
+  }
+
+  private async evaluate(
+    key: string,
+    cost: number,
+    consume: boolean
+  ): Promise<RateLimitResult> {
+    const [allowed, bindingIndex, remaining, retryAfterMs] =
+      (await MULTI_TIER_SCRIPT.run(this.redis, this.tierKeys(key), [
+        Math.random().toString(36).slice(2),
+        cost,
+        consume ? 1 : 0,
+        ...this.tiers.flatMap(tier => [tier.windowMs, tier.requestLimit]),
+      ])) as [number, number, number, number];
+
+    const bindingTier = this.tiers[bindingIndex - 1];
+
+    return {
+      allowed: allowed === 1,
+      remainingRequests: remaining,
+      retryAfterSeconds: Math.ceil(retryAfterMs / 1000),
+      retryAfterMs,
+      requestLimit: bindingTier.requestLimit,
+      windowMs: bindingTier.windowMs,
+      bindingTier: bindingTier.name,
+    };
+  }
+}
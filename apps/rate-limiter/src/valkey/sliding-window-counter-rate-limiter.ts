@@ -0,0 +1,133 @@
+import Redis from 'ioredis';
+import { RateLimiter, RateLimitResult } from '../models';
+import { LuaScript } from './lua-script';
+
+interface SlidingWindowCounterRateLimiterOptions {
+  redis: Redis;
+  windowMs: number;
+  requestLimit: number;
+}
+
+// Approximates a sliding window from two fixed-window counters: the previous
+// window's count is weighted by how much of it still overlaps the sliding
+// window, and the current window's count is added in full.
+//
+// Both counters live in one hash, keyed by fixed window index. The window is
+// derived from the server's clock (TIME), so every instance agrees on which
+// window is current regardless of its own clock.
+//
+// KEYS[1] - counters hash (window index -> count)
+// ARGV[1] - window size (ms)
+// ARGV[2] - request limit
+// ARGV[3] - cost of the request
+// ARGV[4] - 1 to count the request, 0 to only evaluate it (inspect)
+//
+// Returns {allowed, remaining requests, retry after (ms)}
+const SLIDING_WINDOW_COUNTER_SCRIPT = new LuaScript(`
+local key = KEYS[1]
+local window_ms = tonumber(ARGV[1])
+local limit = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local consume = ARGV[4] == '1'
+
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local window_index = math.floor(now / window_ms)
+local elapsed_ms = now - window_index * window_ms
+local current_field = tostring(window_index)
+local previous_field = tostring(window_index - 1)
+
+local counts = redis.call('HMGET', key, current_field, previous_field)
+local current = tonumber(counts[1] or '0')
+local previous = tonumber(counts[2] or '0')
+
+local weight = (window_ms - elapsed_ms) / window_ms
+local estimated = previous * weight + current
+
+if estimated + cost <= limit then
+  if not consume then
+    return {1, math.floor(limit - estimated), 0}
+  end
+  -- Drop counters of windows older than the previous one
+  for _, field in ipairs(redis.call('HKEYS', key)) do
+    if field ~= current_field and field ~= previous_field then
+      redis.call('HDEL', key, field)
+    end
+  end
+  redis.call('HINCRBY', key, current_field, cost)
+  -- The counter is still needed as the "previous" window during the next one
+  redis.call('PEXPIRE', key, window_ms * 2)
+  return {1, math.floor(limit - estimated - cost), 0}
+end
+
+local remaining = math.max(0, math.floor(limit - estimated))
+
+-- Find when the weighted estimate drops far enough to admit the request
+local retry_after_ms
+if cost > limit then
+  -- Can never fit: report the time until both windows have emptied
+  retry_after_ms = (window_ms - elapsed_ms) + window_ms
+elseif current + cost <= limit then
+  local target_weight = (limit - current - cost) / previous
+  retry_after_ms = window_ms * (1 - target_weight) - elapsed_ms
+else
+  -- The current window alone is full: wait for it to become the previous one
+  local target_weight = (limit - cost) / current
+  retry_after_ms = (window_ms - elapsed_ms) + window_ms * (1 - target_weight)
+end
+
+return {0, remaining, math.max(1, math.ceil(retry_after_ms))}
+`);
+
+/**
+ * Sliding window counter rate limiter.
+ *
+ * Unlike the sliding window log, memory usage does not grow with traffic: each
+ * client needs only a hash of two integer counters, at the cost of assuming
+ * requests in the previous window were evenly distributed.
+ */
+export class SlidingWindowCounterRateLimiter implements RateLimiter {
+  private redis: Redis;
+  private windowMs: number;
+  private reqLimit: number;
+
+  constructor(options: SlidingWindowCounterRateLimiterOptions) {
+    this.redis = options.redis;
+    this.windowMs = options.windowMs;
+    this.reqLimit = options.requestLimit;
+  }
+
+  async acquirePermit(key: string, cost = 1): Promise<RateLimitResult> {
+    return this.evaluate(key, cost, true);
+  }
+
+  async inspect(key: string, cost = 1): Promise<RateLimitResult> {
+    return this.evaluate(key, cost, false);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.redis.del(key);
+  }
+
+  private async evaluate(
+    key: string,
+    cost: number,
+    consume: boolean
+  ): Promise<RateLimitResult> {
+    const [allowed, remaining, retryAfterMs] =
+      (await SLIDING_WINDOW_COUNTER_SCRIPT.run(
+        this.redis,
+        [key],
+        [this.windowMs, this.reqLimit, cost, consume ? 1 : 0]
+      )) as [number, number, number];
+
+    return {
+      allowed: allowed === 1,
+      remainingRequests: remaining,
+      retryAfterSeconds: Math.ceil(retryAfterMs / 1000),
+      retryAfterMs,
+      requestLimit: this.reqLimit,
+      windowMs: this.windowMs,
+    };
+  }
+}
@@ -1,5 +1,6 @@
 import Redis from 'ioredis';
 import { RateLimiter, RateLimitResult } from '../models';
+import { LuaScript } from './lua-script';
 
 interface SlidingWindowRateLimiterOptions {
   redis: Redis;
@@ -7,6 +8,61 @@ interface SlidingWindowRateLimiterOptions {
   requestLimit: number;
 }
 
+// Trims the window, counts the remaining entries and records the request in a
+// single atomic step, so concurrent callers can never observe the same count.
+// A request of cost N is recorded as N entries.
+//
+// Entries are scored with the server's clock (TIME), so skewed app host
+// clocks cannot make instances disagree about which entries are in the window.
+//
+// KEYS[1] - sliding window ZSET key
+// ARGV[1] - window size (ms)
+// ARGV[2] - request limit
+// ARGV[3] - unique entry member suffix
+// ARGV[4] - TTL of the ZSET (seconds)
+// ARGV[5] - cost of the request
+// ARGV[6] - 1 to record the request, 0 to only evaluate it (inspect)
+//
+// Returns {allowed, count of entries in the window before this request,
+//          retry after (ms) - time until enough old entries leave the window}
+const SLIDING_WINDOW_SCRIPT = new LuaScript(`
+local key = KEYS[1]
+local window_ms = tonumber(ARGV[1])
+local limit = tonumber(ARGV[2])
+local ttl_seconds = tonumber(ARGV[4])
+local cost = tonumber(ARGV[5])
+local consume = ARGV[6] == '1'
+
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local member = now .. '-' .. ARGV[3]
+
+redis.call('ZREMRANGEBYSCORE', key, 0, now - window_ms)
+local count = redis.call('ZCARD', key)
+
+if count + cost > limit then
+  -- Wait until enough of the oldest entries expire to fit this request
+  -- (or all of them, when the cost exceeds the limit and can never fit)
+  local excess = math.min(count + cost - limit, count)
+  local retry_after_ms = 0
+  if excess > 0 then
+    local entry = redis.call('ZRANGE', key, excess - 1, excess - 1, 'WITHSCORES')
+    retry_after_ms = math.max(0, tonumber(entry[2]) + window_ms - now)
+  end
+  return {0, count, retry_after_ms}
+end
+
+if not consume then
+  return {1, count, 0}
+end
+
+for i = 1, cost do
+  redis.call('ZADD', key, now, member .. '-' .. i)
+end
+redis.call('EXPIRE', key, ttl_seconds)
+return {1, count, 0}
+`);
+
 export class SlidingWindowRateLimiter implements RateLimiter {
   private redis: Redis;
   private windowMs: number;
@@ -18,47 +74,62 @@ export class SlidingWindowRateLimiter implements RateLimiter {
     this.reqLimit = options.requestLimit;
   }
 
-  async acquirePermit(key: string): Promise<RateLimitResult> {
-    const windowMs = this.windowMs;
-    const reqLimit = this.reqLimit;
-    const now = Date.now();
-    const windowStart = now - windowMs;
+  async acquirePermit(key: string, cost = 1): Promise<RateLimitResult> {
+    return this.evaluate(key, cost, true);
+  }
 
-    const res = await this.redis
-      .pipeline()
-      .zremrangebyscore(key, 0, windowStart) // Remove expired requests (outside of the window)
-      .zcard(key) // Get the current count of requests in the window
-      .exec();
+  async inspect(key: string, cost = 1): Promise<RateLimitResult> {
+    return this.evaluate(key, cost, false);
+  }
 
-    if (!res) {
-      throw new Error('Redis pipeline execution failed');
-    }
+  async reset(key: string): Promise<void> {
+    await this.redis.del(key);
+  }
 
-    const currentCount = res[1][1] as number;
+  private async evaluate(
+    key: string,
+    cost: number,
+    consume: boolean
+  ): Promise<RateLimitResult> {
+    const windowMs = this.windowMs;
+    const reqLimit = this.reqLimit;
 
-    if (currentCount >= reqLimit) {
+    const [allowed, currentCount, retryAfterMs] =
+      (await SLIDING_WINDOW_SCRIPT.run(
+        this.redis,
+        [key],
+        [
+          windowMs,
+          reqLimit,
+          // The random suffix prevents collisions when multiple requests arrive at the same millisecond
+          Math.random().toString(36).slice(2),
+          Math.ceil(windowMs / 1000),
+          cost,
+          consume ? 1 : 0,
+        ]
+      )) as [number, number, number];
+
+    if (allowed !== 1) {
       return {
         allowed: false,
-        remainingRequests: 0,
-        retryAfterSeconds: Math.ceil(windowMs / 1000),
+        remainingRequests: Math.max(0, reqLimit - currentCount),
+        retryAfterSeconds: Math.ceil(retryAfterMs / 1000),
+        retryAfterMs,
         requestLimit: reqLimit,
+        windowMs,
       };
     }
 
-    await this.redis
-      .pipeline()
-      // Add the current request to the sliding window
-      //    now is the sorting score
-      //    set value has The random suffix prevents collisions when multiple requests arrive at the same millisecond
-      .zadd(key, now, `${now}${Math.floor(Math.random() * 1000)}`)
-      .expire(key, Math.ceil(windowMs / 1000)) // Set the expiration for the sliding window
-      .exec();
-
     return {
       allowed: true,
-      remainingRequests: Math.max(0, reqLimit - currentCount - 1),
-      retryAfterSeconds: Math.ceil(windowMs / 1000),
+      remainingRequests: Math.max(
+        0,
+        reqLimit - currentCount - (consume ? cost : 0)
+      ),
+      retryAfterSeconds: 0,
+      retryAfterMs: 0,
       requestLimit: reqLimit,
+      windowMs,
     };
   }
 }
@@ -0,0 +1,126 @@
+import Redis from 'ioredis';
+import { RateLimiter, RateLimitResult } from '../models';
+import { LuaScript } from './lua-script';
+
+interface TokenBucketRateLimiterOptions {
+  redis: Redis;
+  /** Maximum number of tokens the bucket can hold (the allowed burst size) */
+  bucketCapacity: number;
+  /** Number of tokens added back to the bucket per second (the average rate) */
+  refillRatePerSecond: number;
+}
+
+// Refills the bucket based on the elapsed time since the last refill, then
+// tries to take `cost` tokens. Bucket state lives in a hash so both the read and
+// the update happen atomically on the server. Elapsed time is measured with
+// the server's clock (TIME), so it is the same whichever instance calls.
+//
+// KEYS[1] - bucket hash key
+// ARGV[1] - bucket capacity
+// ARGV[2] - refill rate (tokens per second)
+// ARGV[3] - TTL of the bucket hash (seconds)
+// ARGV[4] - cost of the request (tokens)
+// ARGV[5] - 1 to take the tokens, 0 to only evaluate the request (inspect)
+//
+// Returns {allowed, remaining tokens (floored), retry after (ms)}
+const TOKEN_BUCKET_SCRIPT = new LuaScript(`
+local key = KEYS[1]
+local capacity = tonumber(ARGV[1])
+local refill_rate = tonumber(ARGV[2])
+local ttl_seconds = tonumber(ARGV[3])
+local cost = tonumber(ARGV[4])
+local consume = ARGV[5] == '1'
+
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+
+local state = redis.call('HMGET', key, 'tokens', 'last_refill')
+local tokens = tonumber(state[1]) or capacity
+local last_refill = tonumber(state[2]) or now
+
+local elapsed_ms = math.max(0, now - last_refill)
+tokens = math.min(capacity, tokens + (elapsed_ms / 1000) * refill_rate)
+
+local allowed = 0
+local retry_after_ms = 0
+if tokens >= cost then
+  allowed = 1
+  if not consume then
+    return {allowed, math.floor(tokens), retry_after_ms}
+  end
+  tokens = tokens - cost
+else
+  -- A cost above the capacity can never fit; report the time until the bucket is full
+  local needed = math.min(cost, capacity) - tokens
+  retry_after_ms = math.ceil((needed / refill_rate) * 1000)
+  if not consume then
+    return {allowed, math.floor(tokens), retry_after_ms}
+  end
+end
+
+redis.call('HSET', key, 'tokens', tostring(tokens), 'last_refill', now, 'capacity', capacity, 'refill_rate', refill_rate)
+redis.call('EXPIRE', key, ttl_seconds)
+
+return {allowed, math.floor(tokens), retry_after_ms}
+`);
+
+/**
+ * Token bucket rate limiter.
+ *
+ * Each client owns a bucket of `bucketCapacity` tokens that refills at
+ * `refillRatePerSecond`. A request consumes one token per unit of cost, so a client can burst up
+ * to the bucket capacity and is then held to the refill rate on average.
+ */
+export class TokenBucketRateLimiter implements RateLimiter {
+  private redis: Redis;
+  private capacity: number;
+  private refillRate: number;
+  private ttlSeconds: number;
+  private refillWindowMs: number;
+
+  constructor(options: TokenBucketRateLimiterOptions) {
+    this.redis = options.redis;
+    this.capacity = options.bucketCapacity;
+    this.refillRate = options.refillRatePerSecond;
+    // Keep the bucket around at least as long as it takes to refill completely;
+    // an expired bucket is equivalent to a full one.
+    this.ttlSeconds = Math.max(1, Math.ceil(this.capacity / this.refillRate));
+    // Time for an empty bucket to refill completely, reported as the window
+    this.refillWindowMs = Math.ceil((this.capacity / this.refillRate) * 1000);
+  }
+
+  async acquirePermit(key: string, cost = 1): Promise<RateLimitResult> {
+    return this.evaluate(key, cost, true);
+  }
+
+  async inspect(key: string, cost = 1): Promise<RateLimitResult> {
+    return this.evaluate(key, cost, false);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.redis.del(key);
+  }
+
+  private async evaluate(
+    key: string,
+    cost: number,
+    consume: boolean
+  ): Promise<RateLimitResult> {
+    const res = (await TOKEN_BUCKET_SCRIPT.run(
+      this.redis,
+      [key],
+      [this.capacity, this.refillRate, this.ttlSeconds, cost, consume ? 1 : 0]
+    )) as [number, number, number];
+
+    const [allowed, remaining, retryAfterMs] = res;
+
+    return {
+      allowed: allowed === 1,
+      remainingRequests: remaining,
+      retryAfterSeconds: Math.ceil(retryAfterMs / 1000),
+      retryAfterMs,
+      requestLimit: this.capacity,
+      windowMs: this.refillWindowMs,
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import { calendarPeriod } from '../src/calendar-periods';
+
+describe('Calendar Periods', () => {
+  const at = (iso: string) => new Date(iso).getTime();
+  const iso = (timestamp: number) => new Date(timestamp).toISOString();
+
+  test('aligns days to local midnight in the time zone', () => {
+    // 23:30 in New York is already the next day in UTC
+    const period = calendarPeriod(
+      at('2024-03-05T04:30:00Z'),
+      'day',
+      'America/New_York'
+    );
+
+    expect(period.id).toBe('2024-03-04');
+    expect(iso(period.start)).toBe('2024-03-04T05:00:00.000Z');
+    expect(iso(period.end)).toBe('2024-03-05T05:00:00.000Z');
+  });
+
+  test('follows daylight saving time changes', () => {
+    const period = calendarPeriod(
+      at('2024-03-10T12:00:00Z'),
+      'day',
+      'America/New_York'
+    );
+
+    expect(iso(period.start)).toBe('2024-03-10T05:00:00.000Z');
+    expect(iso(period.end)).toBe('2024-03-11T04:00:00.000Z');
+    expect(period.end - period.start).toBe(23 * 60 * 60 * 1000);
+  });
+
+  test('starts weeks on the configured day', () => {
+    // Wednesday, 6 March 2024
+    const timestamp = at('2024-03-06T12:00:00Z');
+
+    const monday = calendarPeriod(timestamp, 'week', 'UTC');
+    expect(monday.id).toBe('2024-03-04');
+    expect(iso(monday.end)).toBe('2024-03-11T00:00:00.000Z');
+
+    const sunday = calendarPeriod(timestamp, 'week', 'UTC', 0);
+    expect(sunday.id).toBe('2024-03-03');
+  });
+
+  test('aligns months to the first of the month, across years', () => {
+    const period = calendarPeriod(
+      at('2024-12-31T23:30:00Z'),
+      'month',
+      'Europe/Berlin'
+    );
+
+    expect(period.id).toBe('2025-01');
+    expect(iso(period.start)).toBe('2024-12-31T23:00:00.000Z');
+    expect(iso(period.end)).toBe('2025-01-31T23:00:00.000Z');
+  });
+});
@@ -0,0 +1,43 @@
+import { ValkeyClient } from '@valkey-use-cases/shared';
+import { CalendarQuotaLimiter } from '../src/valkey/calendar-quota-limiter';
+
+describe('Calendar Quota Limiter', () => {
+  const redis = ValkeyClient.getInstance();
+
+  beforeEach(async () => {
+    const keys = await redis.keys('rate_limit:*');
+    if (keys.length > 0) {
+      await redis.del(...keys);
+    }
+  });
+
+  afterAll(async () => {
+    await ValkeyClient.disconnect();
+  });
+
+  test('enforces a calendar quota and honours top-ups', async () => {
+    const rateLimiter = new CalendarQuotaLimiter({
+      redis,
+      period: 'month',
+      requestLimit: 2,
+      timeZone: 'Europe/Berlin',
+    });
+    const key = 'rate_limit:quota-test';
+
+    await rateLimiter.acquirePermit(key, 2);
+    const denied = await rateLimiter.acquirePermit(key);
+    expect(denied.allowed).toBe(false);
+    expect(denied.resetAt).toBeGreaterThan(Date.now());
+    expect(denied.retryAfterMs).toBeCloseTo(denied.resetAt! - Date.now(), -3);
+
+    const toppedUp = await rateLimiter.topUp(key, 3);
+    expect(toppedUp.requestLimit).toBe(5);
+    expect(toppedUp.remainingRequests).toBe(3);
+    expect((await rateLimiter.acquirePermit(key, 3)).allowed).toBe(true);
+    expect((await rateLimiter.acquirePermit(key)).allowed).toBe(false);
+
+    // The quota hash goes away when the period ends
+    const expiresAt = await redis.pexpiretime(key);
+    expect(expiresAt).toBe(denied.resetAt);
+  });
+});
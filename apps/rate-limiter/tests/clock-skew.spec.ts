@@ -0,0 +1,141 @@
+import { ValkeyClient } from '@valkey-use-cases/shared';
+import { RateLimiter } from '../src/models';
+import { SlidingWindowRateLimiter } from '../src/valkey/sliding-window-rate-limiter';
+import { SlidingWindowCounterRateLimiter } from '../src/valkey/sliding-window-counter-rate-limiter';
+import { TokenBucketRateLimiter } from '../src/valkey/token-bucket-rate-limiter';
+import { MultiTierRateLimiter } from '../src/valkey/multi-tier-rate-limiter';
+import { GcraRateLimiter } from '../src/valkey/gcra-rate-limiter';
+import { CalendarQuotaLimiter } from '../src/valkey/calendar-quota-limiter';
+
+describe('Rate Limiter Clock Skew', () => {
+  const redis = ValkeyClient.getInstance();
+  const realNow = Date.now.bind(Date);
+  const serverTimeKey = 'skew-test:server-time';
+
+  // Scripts loaded through this connection read the server time from
+  // serverTimeKey instead of TIME, so the tests control the server clock
+  const script = redis.script.bind(redis) as (...args: string[]) => unknown;
+  const stubServerTime = () =>
+    jest.spyOn(redis, 'script').mockImplementation(((
+      subcommand: string,
+      source: string
+    ) =>
+      script(
+        subcommand,
+        source.replace(
+          /redis\.call\('TIME'\)/g,
+          `(function()
+  local ms = tonumber(redis.call('GET', '${serverTimeKey}'))
+  return {math.floor(ms / 1000), (ms % 1000) * 1000}
+end)()`
+        )
+      )) as unknown as typeof redis.script);
+
+  const setServerTime = (ms: number) => redis.set(serverTimeKey, ms);
+
+  const limiters: Array<[string, RateLimiter]> = [
+    [
+      'sliding window',
+      new SlidingWindowRateLimiter({ redis, windowMs: 1000, requestLimit: 2 }),
+    ],
+    [
+      'sliding window counter',
+      new SlidingWindowCounterRateLimiter({
+        redis,
+        windowMs: 1000,
+        requestLimit: 2,
+      }),
+    ],
+    [
+      'token bucket',
+      new TokenBucketRateLimiter({
+        redis,
+        bucketCapacity: 2,
+        refillRatePerSecond: 0.5,
+      }),
+    ],
+    [
+      'multi-tier',
+      new MultiTierRateLimiter({
+        redis,
+        tiers: [{ name: 'second', windowMs: 1000, requestLimit: 2 }],
+      }),
+    ],
+    [
+      'GCRA',
+      new GcraRateLimiter({
+        redis,
+        windowMs: 2000,
+        requestLimit: 1,
+        burst: 2,
+      }),
+    ],
+  ];
+
+  beforeEach(async () => {
+    const keys = await redis.keys('rate_limit:*');
+    if (keys.length > 0) {
+      await redis.del(...keys);
+    }
+    stubServerTime();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await redis.del(serverTimeKey);
+    await ValkeyClient.disconnect();
+  });
+
+  test.each(limiters)(
+    '%s follows the server clock, not the caller clock',
+    async (name, limiter) => {
+      const key = `rate_limit:skew-test:${name}`;
+      const start = realNow();
+      // The app host's clock is a day off, and does not move
+      jest.spyOn(Date, 'now').mockReturnValue(start - 86400000);
+
+      await setServerTime(start);
+      const results = [];
+      for (let i = 0; i < 3; i++) {
+        results.push(await limiter.acquirePermit(key));
+      }
+      expect(results.map(r => r.allowed)).toEqual([true, true, false]);
+
+      // Only the server clock moving on frees quota again
+      await setServerTime(start + 2000);
+      expect((await limiter.acquirePermit(key)).allowed).toBe(true);
+    }
+  );
+
+  test('calendar quota picks the period by the server clock', async () => {
+    const limiter = new CalendarQuotaLimiter({
+      redis,
+      period: 'day',
+      requestLimit: 2,
+    });
+    const key = 'rate_limit:skew-test:calendar';
+    // One minute before midnight UTC on the server
+    const midnight = Math.ceil(realNow() / 86400000) * 86400000;
+    await setServerTime(midnight - 60000);
+
+    // A host 30 minutes ahead already lives in the next day
+    jest.spyOn(Date, 'now').mockReturnValue(midnight + 30 * 60000);
+    const ahead = await limiter.acquirePermit(key);
+    // A host 30 minutes behind agrees on the period
+    jest.spyOn(Date, 'now').mockReturnValue(midnight - 30 * 60000);
+    const behind = await limiter.acquirePermit(key);
+
+    expect(ahead.resetAt).toBe(midnight);
+    expect(behind.resetAt).toBe(midnight);
+    expect((await limiter.acquirePermit(key)).allowed).toBe(false);
+
+    // The next day starts when the server says so
+    await setServerTime(midnight);
+    const nextDay = await limiter.acquirePermit(key);
+    expect(nextDay.allowed).toBe(true);
+    expect(nextDay.resetAt).toBe(midnight + 86400000);
+  });
+});
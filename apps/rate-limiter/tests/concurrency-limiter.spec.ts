@@ -0,0 +1,68 @@
+import request from 'supertest';
+import express from 'express';
+import { ValkeyClient } from '@valkey-use-cases/shared';
+import { ValkeyConcurrencyLimiter } from '../src/valkey/concurrency-limiter';
+import { createConcurrencyLimitMiddleware } from '../src/middleware';
+
+describe('Concurrency Limiter', () => {
+  const redis = ValkeyClient.getInstance();
+
+  beforeEach(async () => {
+    const keys = await redis.keys('concurrency:*');
+    if (keys.length > 0) {
+      await redis.del(...keys);
+    }
+  });
+
+  afterAll(async () => {
+    await ValkeyClient.disconnect();
+  });
+
+  test('rejects requests beyond the limit until a slot is released', async () => {
+    const app = express();
+    app.get(
+      '/api/slow',
+      createConcurrencyLimitMiddleware(
+        new ValkeyConcurrencyLimiter({ redis, maxConcurrent: 2 }),
+        () => 'client'
+      ),
+      (req, res) => {
+        setTimeout(() => res.json({ success: true }), 300);
+      }
+    );
+
+    const responses = await Promise.all(
+      Array.from({ length: 3 }, () => request(app).get('/api/slow'))
+    );
+    const statuses = responses.map(r => r.status).sort();
+    expect(statuses).toEqual([200, 200, 429]);
+
+    const rejected = responses.find(r => r.status === 429)!;
+    expect(rejected.headers['retry-after']).toBe('1');
+    expect(rejected.headers['x-ratelimit-limit']).toBe('2');
+
+    // Both slots were released when the responses finished
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(await redis.zcard('concurrency:client')).toBe(0);
+    expect((await request(app).get('/api/slow')).status).toBe(200);
+  });
+
+  test('reclaims slots whose lease expired', async () => {
+    const limiter = new ValkeyConcurrencyLimiter({
+      redis,
+      maxConcurrent: 1,
+      leaseMs: 200,
+    });
+    const key = 'concurrency:crashed-instance';
+
+    // Acquired but never released, as by an instance that crashed
+    const held = await limiter.acquire(key);
+    expect(held.allowed).toBe(true);
+    expect((await limiter.acquire(key)).allowed).toBe(false);
+
+    await new Promise(resolve => setTimeout(resolve, 250));
+
+    expect(await limiter.renew(key, held.leaseId!)).toBe(false);
+    expect((await limiter.acquire(key)).allowed).toBe(true);
+  });
+});
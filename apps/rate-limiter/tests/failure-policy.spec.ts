@@ -0,0 +1,121 @@
+import request from 'supertest';
+import express from 'express';
+import {
+  createRateLimitMiddleware,
+  FailurePolicyEvent,
+  RateLimitMiddlewareOptions,
+} from '../src/middleware';
+import { RateLimiter } from '../src/models';
+import { CircuitBreaker } from '../src/circuit-breaker';
+import { InMemoryRateLimiter } from '../src/memory/in-memory-rate-limiter';
+import { InMemoryQuotaLimiter } from '../src/memory/in-memory-quota-limiter';
+
+describe('Rate Limiter Failure Policy', () => {
+  const failingLimiter: RateLimiter = {
+    acquirePermit: jest.fn(async () => {
+      throw new Error('Connection is closed.');
+    }),
+    inspect: jest.fn(async () => {
+      throw new Error('Connection is closed.');
+    }),
+    reset: jest.fn(async () => {
+      throw new Error('Connection is closed.');
+    }),
+  };
+
+  const createApp = (options: RateLimitMiddlewareOptions) => {
+    const app = express();
+    app.get(
+      '/api/test',
+      createRateLimitMiddleware(failingLimiter, () => 'client', options),
+      (req, res) => {
+        res.json({ success: true });
+      }
+    );
+    return app;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('fail-open lets the request through', async () => {
+    const response = await request(createApp({ failurePolicy: 'open' })).get(
+      '/api/test'
+    );
+
+    expect(response.status).toBe(200);
+  });
+
+  test('fail-closed rejects the request with 503', async () => {
+    const response = await request(createApp({ failurePolicy: 'closed' })).get(
+      '/api/test'
+    );
+
+    expect(response.status).toBe(503);
+  });
+
+  test('fallback decides with the in-process limiter', async () => {
+    const app = createApp({
+      failurePolicy: 'fallback',
+      fallbackLimiter: new InMemoryRateLimiter({
+        windowMs: 1000,
+        requestLimit: 1,
+      }),
+    });
+
+    expect((await request(app).get('/api/test')).status).toBe(200);
+    expect((await request(app).get('/api/test')).status).toBe(429);
+  });
+
+  test('in-process quota fallback counts per calendar period', async () => {
+    const now = jest.spyOn(Date, 'now');
+    const limiter = new InMemoryQuotaLimiter({
+      period: 'month',
+      requestLimit: 2,
+    });
+
+    try {
+      now.mockReturnValue(Date.UTC(2024, 2, 31, 23, 0));
+      expect((await limiter.acquirePermit('client', 2)).allowed).toBe(true);
+      const denied = await limiter.acquirePermit('client');
+      expect(denied.allowed).toBe(false);
+      expect(denied.resetAt).toBe(Date.UTC(2024, 3, 1));
+      expect(denied.retryAfterMs).toBe(60 * 60 * 1000);
+
+      now.mockReturnValue(Date.UTC(2024, 3, 1));
+      const next = await limiter.acquirePermit('client');
+      expect(next.allowed).toBe(true);
+      expect(next.remainingRequests).toBe(1);
+    } finally {
+      now.mockRestore();
+    }
+  });
+
+  test('open circuit skips the limiter and reports each decision', async () => {
+    const events: FailurePolicyEvent[] = [];
+    const app = createApp({
+      failurePolicy: 'closed',
+      circuitBreaker: new CircuitBreaker({ failureThreshold: 2 }),
+      onFailurePolicy: event => events.push(event),
+    });
+
+    for (let i = 0; i < 4; i++) {
+      await request(app).get('/api/test');
+    }
+
+    expect(failingLimiter.acquirePermit).toHaveBeenCalledTimes(2);
+    expect(events.map(e => e.reason)).toEqual([
+      'error',
+      'error',
+      'circuit-open',
+      'circuit-open',
+    ]);
+    expect(events.every(e => e.policy === 'closed')).toBe(true);
+  });
+});
@@ -0,0 +1,44 @@
+import { ValkeyClient } from '@valkey-use-cases/shared';
+import { GcraRateLimiter } from '../src/valkey/gcra-rate-limiter';
+
+describe('GCRA Rate Limiter', () => {
+  const redis = ValkeyClient.getInstance();
+
+  beforeEach(async () => {
+    const keys = await redis.keys('rate_limit:*');
+    if (keys.length > 0) {
+      await redis.del(...keys);
+    }
+  });
+
+  afterAll(async () => {
+    await ValkeyClient.disconnect();
+  });
+
+  test('spaces requests and reports the exact retry-after', async () => {
+    const rateLimiter = new GcraRateLimiter({
+      redis,
+      requestLimit: 10,
+      windowMs: 1000,
+      burst: 2,
+    });
+    const key = 'rate_limit:gcra-test';
+
+    const burst = await Promise.all(
+      Array.from({ length: 3 }, () => rateLimiter.acquirePermit(key))
+    );
+    expect(burst.filter(r => r.allowed)).toHaveLength(2);
+
+    // One request is admitted every 100ms once the burst is used up
+    const rejected = burst.find(r => !r.allowed)!;
+    expect(rejected.retryAfterMs).toBeGreaterThan(0);
+    expect(rejected.retryAfterMs).toBeLessThanOrEqual(100);
+
+    await new Promise(resolve => setTimeout(resolve, rejected.retryAfterMs));
+    expect((await rateLimiter.acquirePermit(key)).allowed).toBe(true);
+    expect((await rateLimiter.acquirePermit(key)).allowed).toBe(false);
+
+    // Only a single timestamp is stored per key
+    expect(await redis.type(key)).toBe('string');
+  });
+});
@@ -0,0 +1,33 @@
+import request from 'supertest';
+import express from 'express';
+import { createRateLimitMiddleware } from '../src/middleware';
+import { InMemoryRateLimiter } from '../src/memory/in-memory-rate-limiter';
+
+describe('Rate Limit Headers', () => {
+  test('sends draft and legacy headers on allowed and rate limited responses', async () => {
+    const app = express();
+    app.get(
+      '/api/draft',
+      createRateLimitMiddleware(
+        new InMemoryRateLimiter({ windowMs: 1000, requestLimit: 1 }),
+        () => 'client',
+        { headers: 'both' }
+      ),
+      (req, res) => {
+        res.json({ success: true });
+      }
+    );
+
+    const allowed = await request(app).get('/api/draft');
+    expect(allowed.status).toBe(200);
+    expect(allowed.headers['ratelimit-policy']).toBe('"default";q=1;w=1');
+    expect(allowed.headers['ratelimit']).toBe('"default";r=0');
+    expect(allowed.headers['x-ratelimit-limit']).toBe('1');
+
+    const limited = await request(app).get('/api/draft');
+    expect(limited.status).toBe(429);
+    expect(limited.headers['ratelimit']).toBe('"default";r=0;t=1');
+    expect(limited.headers['x-ratelimit-remaining']).toBe('0');
+    expect(limited.headers['retry-after']).toBe('1');
+  });
+});
@@ -0,0 +1,86 @@
+import request from 'supertest';
+import express from 'express';
+import {
+  composeKeyGenerators,
+  createApiKeyKeyGenerator,
+  createTrustedProxyIpKeyGenerator,
+  createUserKeyGenerator,
+  RouteKeyGenerator,
+} from '../src/key-generators';
+import { RateLimitKeyGenerator } from '../src/middleware';
+
+describe('Rate Limit Key Generators', () => {
+  // Echoes the generated key so the generator runs against a real request
+  const keyFor = async (
+    keyGenerator: RateLimitKeyGenerator,
+    headers: Record<string, string> = {}
+  ) => {
+    const app = express();
+    app.get('/api/items/:id', (req, res) => {
+      res.json({ key: keyGenerator(req) });
+    });
+
+    const response = await request(app).get('/api/items/42').set(headers);
+    return response.body.key as string;
+  };
+
+  test('skips trusted proxies in X-Forwarded-For', async () => {
+    const keyGenerator = createTrustedProxyIpKeyGenerator({
+      trustedProxies: ['127.0.0.1', '::1', '10.0.0.0/8'],
+    });
+
+    expect(
+      await keyFor(keyGenerator, {
+        'X-Forwarded-For': '1.1.1.1, 203.0.113.7, 10.1.2.3',
+      })
+    ).toBe('ip:203.0.113.7');
+  });
+
+  test('ignores X-Forwarded-For from untrusted peers', async () => {
+    const keyGenerator = createTrustedProxyIpKeyGenerator({
+      trustedProxies: ['10.0.0.0/8'],
+    });
+
+    expect(
+      await keyFor(keyGenerator, { 'X-Forwarded-For': '203.0.113.7' })
+    ).toMatch(/^ip:(127\.0\.0\.1|::1\/64|0:0:0:0:0:0:0:0\/64)$/);
+  });
+
+  test('groups IPv6 clients by /64', async () => {
+    const keyGenerator = createTrustedProxyIpKeyGenerator({
+      trustedProxies: ['127.0.0.1', '::1'],
+    });
+
+    expect(
+      await keyFor(keyGenerator, {
+        'X-Forwarded-For': '2001:db8:abcd:12:1:2:3:4',
+      })
+    ).toBe('ip:2001:db8:abcd:12:0:0:0:0/64');
+    expect(
+      await keyFor(keyGenerator, { 'X-Forwarded-For': '2001:db8:abcd:12::99' })
+    ).toBe('ip:2001:db8:abcd:12:0:0:0:0/64');
+  });
+
+  test('hashes API keys and falls back when missing', async () => {
+    const keyGenerator = createApiKeyKeyGenerator(() => 'ip:fallback');
+
+    const key = await keyFor(keyGenerator, { 'X-API-Key': 'secret-key' });
+    expect(key).toMatch(/^apikey:[0-9a-f]{32}$/);
+    expect(key).not.toContain('secret-key');
+    expect(await keyFor(keyGenerator)).toBe('ip:fallback');
+  });
+
+  test('composes user and route keys', async () => {
+    const keyGenerator = composeKeyGenerators(
+      createUserKeyGenerator(req => req.get('X-User-Id')),
+      RouteKeyGenerator
+    );
+
+    expect(await keyFor(keyGenerator, { 'X-User-Id': '7' })).toBe(
+      'user:7:route:GET:/api/items/:id'
+    );
+    expect(await keyFor(keyGenerator)).toBe(
+      'user:anonymous:route:GET:/api/items/:id'
+    );
+  });
+});
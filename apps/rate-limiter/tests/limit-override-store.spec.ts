@@ -0,0 +1,82 @@
+import { EventEmitter } from 'events';
+import Redis from 'ioredis';
+import { LimitOverrideStore } from '../src/overrides/limit-override-store';
+
+describe('Limit Override Store cache', () => {
+  test('does not cache a lookup that an invalidation overtook', async () => {
+    const subscriber = Object.assign(new EventEmitter(), {
+      subscribe: async () => 1,
+    });
+    const stored: Record<string, string> = {};
+    let reads = 0;
+    const redis = {
+      duplicate: () => subscriber,
+      hget: async (_hash: string, field: string) => {
+        reads++;
+        const value = stored[field] ?? null;
+        // The change is announced while the read is still in flight
+        stored[field] = JSON.stringify({
+          type: 'sliding-window',
+          windowMs: 1000,
+          requestLimit: 5,
+        });
+        subscriber.emit('message', 'rate_limit:overrides:changed', field);
+        return value;
+      },
+    } as unknown as Redis;
+    const store = new LimitOverrideStore({ redis, cacheTtlMs: 60000 });
+    await store.start();
+
+    expect(await store.get('rate_limit:stale')).toBeUndefined();
+    expect((await store.get('rate_limit:stale'))?.type).toBe('sliding-window');
+    expect(reads).toBe(2);
+  });
+
+  // A store over a hash with no overrides, counting the reads that reach it
+  const createStore = async (maxKeys?: number) => {
+    const subscriber = Object.assign(new EventEmitter(), {
+      subscribe: async () => 1,
+    });
+    const reads: string[] = [];
+    const redis = {
+      duplicate: () => subscriber,
+      hget: async (_hash: string, field: string) => {
+        reads.push(field);
+        return null;
+      },
+    } as unknown as Redis;
+    const store = new LimitOverrideStore({ redis, cacheTtlMs: 60000, maxKeys });
+    await store.start();
+    return { store, subscriber, reads };
+  };
+
+  test('drops the oldest lookup beyond maxKeys', async () => {
+    const { store, reads } = await createStore(2);
+
+    await store.get('rate_limit:a');
+    await store.get('rate_limit:b');
+    await store.get('rate_limit:c');
+    await store.get('rate_limit:c');
+    await store.get('rate_limit:b');
+    await store.get('rate_limit:a');
+
+    expect(reads).toEqual([
+      'rate_limit:a',
+      'rate_limit:b',
+      'rate_limit:c',
+      'rate_limit:a',
+    ]);
+  });
+
+  test('drops every cached lookup when the subscriber reconnects', async () => {
+    const { store, subscriber, reads } = await createStore();
+    await store.get('rate_limit:a');
+    await store.get('rate_limit:a');
+
+    // Invalidations published while disconnected were missed
+    subscriber.emit('ready');
+    await store.get('rate_limit:a');
+
+    expect(reads).toEqual(['rate_limit:a', 'rate_limit:a']);
+  });
+});
@@ -94,4 +94,25 @@ describe('Rate Limiter Load Test Verification', () => {
     expect(successRate).toBeGreaterThan(50);
     expect(successRate).toBeLessThan(80);
   }, 10000);
+
+  test('never admits more than the request limit under concurrent requests', async () => {
+    const concurrentRequests = 20;
+
+    const responses = await Promise.all(
+      Array.from({ length: concurrentRequests }, () =>
+        request(app).get('/api/test')
+      )
+    );
+
+    const successful = responses.filter(r => r.status === 200).length;
+    const rateLimited = responses.filter(r => r.status === 429).length;
+
+    console.log(
+      `Concurrent results: ${successful} success, ${rateLimited} rate limited out of ${concurrentRequests}`
+    );
+
+    expect(successful).toBeGreaterThan(0);
+    expect(successful).toBeLessThanOrEqual(2);
+    expect(successful + rateLimited).toBe(concurrentRequests);
+  }, 10000);
 });
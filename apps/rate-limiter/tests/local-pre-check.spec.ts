@@ -0,0 +1,73 @@
+import { InMemoryRateLimiter } from '../src/memory/in-memory-rate-limiter';
+import { LocalPreCheckRateLimiter } from '../src/memory/local-pre-check-rate-limiter';
+
+describe('Local Pre-Check Rate Limiter', () => {
+  const createLimiters = (options: { batchSize?: number } = {}) => {
+    const inner = new InMemoryRateLimiter({
+      windowMs: 60000,
+      requestLimit: 10,
+    });
+    const acquirePermit = jest.spyOn(inner, 'acquirePermit');
+    const limiter = new LocalPreCheckRateLimiter({
+      limiter: inner,
+      maxDeniedMs: 5000,
+      ...options,
+    });
+    return { limiter, acquirePermit };
+  };
+
+  test('rejects known-denied keys without asking the limiter', async () => {
+    const { limiter, acquirePermit } = createLimiters();
+    const key = 'rate_limit:client';
+
+    await limiter.acquirePermit(key, 10);
+    const first = await limiter.acquirePermit(key);
+    expect(first.allowed).toBe(false);
+    expect(first.localDecision).toBeUndefined();
+    expect(acquirePermit).toHaveBeenCalledTimes(2);
+
+    const second = await limiter.acquirePermit(key);
+    expect(second.allowed).toBe(false);
+    expect(second.localDecision?.reason).toBe('denied-cache');
+    expect(second.retryAfterMs).toBeLessThanOrEqual(5000);
+    expect(acquirePermit).toHaveBeenCalledTimes(2);
+
+    // A reset clears the local state too
+    await limiter.reset(key);
+    expect((await limiter.acquirePermit(key)).allowed).toBe(true);
+  });
+
+  test('hands out batched units locally, bounded by the batch size', async () => {
+    const { limiter, acquirePermit } = createLimiters({ batchSize: 4 });
+    const key = 'rate_limit:client';
+
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      results.push(await limiter.acquirePermit(key));
+    }
+
+    expect(results.every(r => r.allowed)).toBe(true);
+    expect(results.map(r => r.remainingRequests)).toEqual([9, 8, 7, 6]);
+    expect(results[3].localDecision).toMatchObject({
+      reason: 'batch',
+      unusedUnits: 0,
+    });
+    expect(acquirePermit).toHaveBeenCalledTimes(1);
+    expect(acquirePermit).toHaveBeenCalledWith(key, 4);
+  });
+
+  test('shares one batch between concurrent misses', async () => {
+    const { limiter, acquirePermit } = createLimiters({ batchSize: 4 });
+    const key = 'rate_limit:client';
+
+    const results = await Promise.all(
+      Array.from({ length: 6 }, () => limiter.acquirePermit(key))
+    );
+
+    expect(results.every(r => r.allowed)).toBe(true);
+    // One batch of 4, then a second one for the remaining 2 requests
+    expect(acquirePermit).toHaveBeenCalledTimes(2);
+    expect(acquirePermit).toHaveBeenNthCalledWith(2, key, 4);
+    expect((await limiter.inspect(key)).remainingRequests).toBe(2);
+  });
+});
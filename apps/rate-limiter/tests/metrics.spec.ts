@@ -0,0 +1,77 @@
+import request from 'supertest';
+import express from 'express';
+import { createRateLimitMiddleware } from '../src/middleware';
+import { RateLimiter } from '../src/models';
+import { InMemoryRateLimiter } from '../src/memory/in-memory-rate-limiter';
+import { PrometheusRateLimitMetrics } from '../src/metrics';
+
+describe('Rate Limiter Metrics', () => {
+  const createApp = (
+    limiter: RateLimiter,
+    metrics: PrometheusRateLimitMetrics
+  ) => {
+    const app = express();
+    app.get('/metrics', metrics.handler());
+    app.get(
+      '/api/test',
+      createRateLimitMiddleware(limiter, () => 'client', {
+        policyName: 'api-test',
+        limiterType: 'sliding-window',
+        circuitBreaker: false,
+        metrics,
+      }),
+      (req, res) => {
+        res.json({ success: true });
+      }
+    );
+    return app;
+  };
+
+  test('counts allowed and denied requests and limiter latency', async () => {
+    const app = createApp(
+      new InMemoryRateLimiter({ windowMs: 60000, requestLimit: 2 }),
+      new PrometheusRateLimitMetrics()
+    );
+
+    for (let i = 0; i < 3; i++) {
+      await request(app).get('/api/test');
+    }
+    const response = await request(app).get('/metrics');
+
+    expect(response.status).toBe(200);
+    expect(response.text).toContain(
+      'rate_limit_decisions_total{rule="api-test",limiter="sliding-window",decision="allowed",source="limiter",mode="enforce"} 2'
+    );
+    expect(response.text).toContain(
+      'rate_limit_decisions_total{rule="api-test",limiter="sliding-window",decision="denied",source="limiter",mode="enforce"} 1'
+    );
+    expect(response.text).toContain(
+      'rate_limit_limiter_call_duration_seconds_count{rule="api-test",limiter="sliding-window",outcome="success"} 3'
+    );
+  });
+
+  test('counts errors and fail-open requests', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const failingLimiter: RateLimiter = {
+      acquirePermit: async () => {
+        throw new Error('Connection is closed.');
+      },
+      inspect: async () => {
+        throw new Error('Connection is closed.');
+      },
+      reset: async () => {},
+    };
+    const app = createApp(failingLimiter, new PrometheusRateLimitMetrics());
+
+    expect((await request(app).get('/api/test')).status).toBe(200);
+    const response = await request(app).get('/metrics');
+
+    expect(response.text).toContain(
+      'rate_limit_errors_total{rule="api-test",limiter="sliding-window",reason="error"} 1'
+    );
+    expect(response.text).toContain(
+      'rate_limit_fail_open_total{rule="api-test",limiter="sliding-window"} 1'
+    );
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,48 @@
+import { ValkeyClient } from '@valkey-use-cases/shared';
+import { MultiTierRateLimiter } from '../src/valkey/multi-tier-rate-limiter';
+
+describe('Multi-Tier Rate Limiter', () => {
+  const redis = ValkeyClient.getInstance();
+
+  beforeEach(async () => {
+    const keys = await redis.keys('rate_limit:*');
+    if (keys.length > 0) {
+      await redis.del(...keys);
+    }
+  });
+
+  afterAll(async () => {
+    await ValkeyClient.disconnect();
+  });
+
+  test('only records requests allowed by every tier', async () => {
+    const rateLimiter = new MultiTierRateLimiter({
+      redis,
+      tiers: [
+        { name: 'second', windowMs: 1000, requestLimit: 2 },
+        { name: 'minute', windowMs: 60000, requestLimit: 3 },
+      ],
+    });
+    const key = 'rate_limit:multi-tier-test';
+
+    const first = await Promise.all(
+      Array.from({ length: 5 }, () => rateLimiter.acquirePermit(key))
+    );
+    expect(first.filter(r => r.allowed)).toHaveLength(2);
+    const rejected = first.find(r => !r.allowed)!;
+    expect(rejected.bindingTier).toBe('second');
+
+    await new Promise(resolve => setTimeout(resolve, 1100));
+
+    // Rejections above did not count against the minute tier
+    const second = await rateLimiter.acquirePermit(key);
+    expect(second.allowed).toBe(true);
+    expect(second.bindingTier).toBe('minute');
+    expect(second.remainingRequests).toBe(0);
+
+    const third = await rateLimiter.acquirePermit(key);
+    expect(third.allowed).toBe(false);
+    expect(third.bindingTier).toBe('minute');
+    expect(third.requestLimit).toBe(3);
+  }, 10000);
+});
@@ -0,0 +1,80 @@
+import { ValkeyClient } from '@valkey-use-cases/shared';
+import { LimitOverrideStore } from '../src/overrides/limit-override-store';
+import { OverridableRateLimiter } from '../src/overrides/overridable-rate-limiter';
+import { SlidingWindowRateLimiter } from '../src/valkey/sliding-window-rate-limiter';
+
+describe('Runtime Limit Overrides', () => {
+  const redis = ValkeyClient.getInstance();
+  const hashKey = 'rate_limit:test-overrides';
+  const channel = 'rate_limit:test-overrides:changed';
+  const key = 'rate_limit:override-test';
+
+  // Two stores stand in for two application instances
+  const adminInstance = new LimitOverrideStore({ redis, hashKey, channel });
+  const otherInstance = new LimitOverrideStore({
+    redis,
+    hashKey,
+    channel,
+    cacheTtlMs: 60000,
+  });
+
+  beforeAll(async () => {
+    await otherInstance.start();
+  });
+
+  beforeEach(async () => {
+    const keys = await redis.keys('rate_limit:*');
+    if (keys.length > 0) {
+      await redis.del(...keys);
+    }
+  });
+
+  afterAll(async () => {
+    await otherInstance.stop();
+    await ValkeyClient.disconnect();
+  });
+
+  test('changes reach other instances within a second despite caching', async () => {
+    // Cache "no override" on the other instance
+    expect(await otherInstance.get(key)).toBeUndefined();
+
+    await adminInstance.set(key, {
+      type: 'sliding-window',
+      windowMs: 1000,
+      requestLimit: 5,
+    });
+    await new Promise(resolve => setTimeout(resolve, 200));
+    expect((await otherInstance.get(key))?.type).toBe('sliding-window');
+
+    expect(await adminInstance.delete(key)).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 200));
+    expect(await otherInstance.get(key)).toBeUndefined();
+  });
+
+  test('overridden keys use the override limit', async () => {
+    const limiter = new OverridableRateLimiter({
+      redis,
+      limiter: new SlidingWindowRateLimiter({
+        redis,
+        windowMs: 1000,
+        requestLimit: 1,
+      }),
+      overrides: adminInstance,
+    });
+
+    await adminInstance.set(key, {
+      type: 'sliding-window',
+      windowMs: 1000,
+      requestLimit: 3,
+    });
+
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => limiter.acquirePermit(key))
+    );
+    expect(results.filter(r => r.allowed)).toHaveLength(3);
+    expect(results[0].requestLimit).toBe(3);
+
+    const other = await limiter.acquirePermit('rate_limit:not-overridden');
+    expect(other.requestLimit).toBe(1);
+  });
+});
@@ -0,0 +1,150 @@
+import { ValkeyClient } from '@valkey-use-cases/shared';
+import { GcraRateLimiter } from '../src/valkey/gcra-rate-limiter';
+import { SlidingWindowRateLimiter } from '../src/valkey/sliding-window-rate-limiter';
+import {
+  PermitCostExceedsLimitError,
+  PermitTimeoutError,
+  RateLimiterClient,
+} from '../src/rate-limiter-client';
+
+describe('Rate Limiter Client', () => {
+  const redis = ValkeyClient.getInstance();
+  const clients: RateLimiterClient[] = [];
+
+  const createClient = (requestLimit: number, windowMs: number) => {
+    const client = new RateLimiterClient({
+      redis,
+      limiter: new GcraRateLimiter({
+        redis,
+        requestLimit,
+        windowMs,
+        burst: 1,
+      }),
+    });
+    clients.push(client);
+    return client;
+  };
+
+  beforeEach(async () => {
+    const keys = await redis.keys('client-test:*');
+    if (keys.length > 0) {
+      await redis.del(...keys);
+    }
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await Promise.all(clients.map(client => client.stop()));
+    await ValkeyClient.disconnect();
+  });
+
+  test('waits for permits instead of rejecting, across clients', async () => {
+    // Two clients, as in two worker processes sharing a 10 RPS budget
+    const workers = [createClient(10, 1000), createClient(10, 1000)];
+    const startTime = Date.now();
+
+    const results = await Promise.all(
+      Array.from({ length: 6 }, (_, i) =>
+        workers[i % 2].waitForPermit('client-test:vendor', { timeoutMs: 2000 })
+      )
+    );
+    const elapsed = Date.now() - startTime;
+
+    expect(results.every(r => r.allowed)).toBe(true);
+    // The first permit is immediate, the other five 100ms apart
+    expect(elapsed).toBeGreaterThanOrEqual(450);
+    expect(elapsed).toBeLessThan(1500);
+  });
+
+  test('serves waiters in arrival order', async () => {
+    const client = createClient(5, 1000);
+    const order: number[] = [];
+
+    const waits = [];
+    for (let i = 0; i < 3; i++) {
+      waits.push(
+        client
+          .waitForPermit('client-test:ordered', { timeoutMs: 2000 })
+          .then(() => order.push(i))
+      );
+      // Join the queue one after the other
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    await Promise.all(waits);
+
+    expect(order).toEqual([0, 1, 2]);
+  });
+
+  test('gives up after the timeout and leaves the queue', async () => {
+    const client = createClient(1, 60000);
+    await client.waitForPermit('client-test:exhausted');
+
+    await expect(
+      client.waitForPermit('client-test:exhausted', { timeoutMs: 200 })
+    ).rejects.toThrow(PermitTimeoutError);
+    expect(await redis.zcard('client-test:exhausted:queue')).toBe(0);
+  });
+
+  test('rejects right away a cost that exceeds the limit', async () => {
+    const client = new RateLimiterClient({
+      redis,
+      limiter: new SlidingWindowRateLimiter({
+        redis,
+        requestLimit: 5,
+        windowMs: 1000,
+      }),
+    });
+    clients.push(client);
+    const startTime = Date.now();
+
+    await expect(
+      client.waitForPermit('client-test:oversized', {
+        cost: 6,
+        timeoutMs: 2000,
+      })
+    ).rejects.toThrow(PermitCostExceedsLimitError);
+    expect(Date.now() - startTime).toBeLessThan(500);
+    expect(await redis.zcard('client-test:oversized:queue')).toBe(0);
+  });
+
+  test('subscribes again after a failed subscribe', async () => {
+    const client = createClient(10, 1000);
+    const failed = {
+      on: jest.fn(),
+      subscribe: jest.fn(async () => {
+        throw new Error('Connection is closed.');
+      }),
+      disconnect: jest.fn(),
+    };
+    jest
+      .spyOn(redis, 'duplicate')
+      .mockImplementationOnce(() => failed as unknown as typeof redis);
+
+    await expect(
+      client.waitForPermit('client-test:resubscribe')
+    ).rejects.toThrow('Connection is closed.');
+    expect(failed.disconnect).toHaveBeenCalled();
+
+    const result = await client.waitForPermit('client-test:resubscribe', {
+      timeoutMs: 500,
+    });
+    expect(result.allowed).toBe(true);
+  });
+
+  test('skips waiters whose lease expired', async () => {
+    const client = createClient(10, 1000);
+    // Queued ahead of everyone by a worker that crashed
+    await redis.zadd('client-test:crashed:queue', 0, 'crashed-worker');
+    await redis.hset('client-test:crashed:queue:leases', 'crashed-worker', 0);
+
+    const result = await client.waitForPermit('client-test:crashed', {
+      timeoutMs: 500,
+    });
+
+    expect(result.allowed).toBe(true);
+    expect(await redis.zcard('client-test:crashed:queue')).toBe(0);
+  });
+});
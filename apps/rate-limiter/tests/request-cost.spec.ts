@@ -0,0 +1,104 @@
+import request from 'supertest';
+import express from 'express';
+import Redis from 'ioredis';
+import {
+  createRateLimitMiddleware,
+  RateLimitMiddlewareOptions,
+} from '../src/middleware';
+import { InMemoryRateLimiter } from '../src/memory/in-memory-rate-limiter';
+import { createRateLimitPolicy } from '../src/rules/policy-middleware';
+
+describe('Rate Limiter Request Cost', () => {
+  // A cost function that cannot price a malformed GraphQL body
+  const cost = jest.fn((req: express.Request) => {
+    const query = (req.body as { query?: unknown } | undefined)?.query;
+    if (typeof query !== 'string') {
+      throw new TypeError('Expected a GraphQL query');
+    }
+    return query.length;
+  });
+
+  const createApp = (middleware: express.RequestHandler) => {
+    const app = express();
+    app.use(express.json());
+    app.post('/api/graphql', middleware, (req, res) => {
+      res.json({ success: true });
+    });
+    return app;
+  };
+
+  const createMiddleware = (options: RateLimitMiddlewareOptions) =>
+    createRateLimitMiddleware(
+      new InMemoryRateLimiter({ windowMs: 60000, requestLimit: 100 }),
+      () => 'client',
+      { cost, ...options }
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('charges a request by its cost', async () => {
+    const onRateLimitResult = jest.fn();
+    const app = createApp(createMiddleware({ onRateLimitResult }));
+
+    const response = await request(app)
+      .post('/api/graphql')
+      .send({ query: '{ a }' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['x-ratelimit-remaining']).toBe('95');
+    expect(onRateLimitResult).toHaveBeenCalledWith(
+      expect.objectContaining({ cost: 5 })
+    );
+  });
+
+  test('passes an error of the cost function to the error handler', async () => {
+    const app = createApp(createMiddleware({}));
+
+    const response = await request(app).post('/api/graphql').send({});
+
+    expect(response.status).toBe(500);
+    expect(cost).toHaveBeenCalledTimes(1);
+  });
+
+  test('shadow mode lets the request through when the cost function throws', async () => {
+    const app = createApp(createMiddleware({ shadow: true }));
+
+    const response = await request(app).post('/api/graphql').send({});
+
+    expect(response.status).toBe(200);
+    expect(console.error).toHaveBeenCalledWith(
+      'Shadow rate limiter error:',
+      expect.any(TypeError)
+    );
+  });
+
+  test('shadow rules of a policy never fail the request', async () => {
+    const policy = createRateLimitPolicy({
+      // Not reached, since pricing fails first
+      redis: {} as Redis,
+      rules: [
+        {
+          name: 'candidate',
+          path: '/api/*',
+          shadow: true,
+          limiter: { type: 'sliding-window', windowMs: 1000, requestLimit: 5 },
+        },
+      ],
+      keyGenerator: () => 'client',
+      middlewareOptions: { cost },
+    });
+    const app = createApp(policy.middleware);
+
+    const response = await request(app).post('/api/graphql').send({});
+
+    expect(response.status).toBe(200);
+    expect(cost).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,190 @@
+import path from 'path';
+import {
+  findMatchingRule,
+  findMatchingShadowRules,
+  loadRateLimitRules,
+  RateLimitRulesError,
+  validateRateLimitRules,
+} from '../src/rules/rules';
+
+describe('Rate Limit Rules', () => {
+  const rules = loadRateLimitRules(
+    path.join(__dirname, '..', 'rate-limit-rules.yaml')
+  );
+
+  test('loads the bundled rules file', () => {
+    expect(rules.map(rule => rule.name)).toEqual([
+      'burst',
+      'api-enterprise',
+      'api-pro',
+      'api-free-next',
+      'api-free',
+    ]);
+  });
+
+  test('matches rules by path, method and plan in order', () => {
+    const match = (method: string, path: string, plan?: string) =>
+      findMatchingRule(rules, { method, path, plan })?.name;
+
+    expect(match('GET', '/api/burst', 'enterprise')).toBe('burst');
+    expect(match('POST', '/api/burst', 'enterprise')).toBe('api-enterprise');
+    expect(match('GET', '/api/data', 'pro')).toBe('api-pro');
+    expect(match('GET', '/api/data', 'free')).toBe('api-free');
+    expect(match('GET', '/api/data')).toBe('api-free');
+    expect(match('GET', '/health')).toBeUndefined();
+  });
+
+  test('evaluates shadow rules in addition to the enforced rule', () => {
+    const request = { method: 'GET', path: '/api/data', plan: 'free' };
+
+    expect(findMatchingRule(rules, request)?.name).toBe('api-free');
+    expect(findMatchingShadowRules(rules, request).map(r => r.name)).toEqual([
+      'api-free-next',
+    ]);
+    expect(findMatchingShadowRules(rules, { ...request, plan: 'pro' })).toEqual(
+      []
+    );
+  });
+
+  test('matches path parameters', () => {
+    const [rule] = validateRateLimitRules({
+      rules: [
+        {
+          name: 'user',
+          path: '/users/:id/orders',
+          limiter: { type: 'sliding-window', windowMs: 1000, requestLimit: 1 },
+        },
+      ],
+    });
+
+    const match = (path: string) =>
+      findMatchingRule([rule], { method: 'GET', path });
+    expect(match('/users/42/orders')).toBe(rule);
+    expect(match('/users/42/orders/7')).toBeUndefined();
+  });
+
+  test('reports every problem in a malformed rules file', () => {
+    const malformed = {
+      rules: [
+        {
+          name: 'a',
+          path: 'api',
+          methods: 'GET',
+          limiter: { type: 'sliding-window', windowMs: -1 },
+        },
+        {
+          name: 'a',
+          path: '/api',
+          failurePolicy: 'ignore',
+          localPreCheck: { batchSize: 0, ttl: 1 },
+          limiter: { type: 'leaky-bucket' },
+        },
+      ],
+    };
+
+    expect(() => validateRateLimitRules(malformed)).toThrow(
+      RateLimitRulesError
+    );
+    try {
+      validateRateLimitRules(malformed);
+    } catch (error) {
+      expect((error as RateLimitRulesError).issues).toEqual([
+        'rules[0].path: expected a route pattern starting with "/"',
+        'rules[0].methods: expected a list of strings',
+        'rules[0].limiter.windowMs: expected a positive number',
+        'rules[0].limiter.requestLimit: expected a positive number',
+        'rules[1].name: duplicate rule name "a"',
+        'rules[1].failurePolicy: expected one of open, closed, fallback',
+        'rules[1].localPreCheck.batchSize: expected a positive number',
+        'rules[1].localPreCheck.ttl: expected one of maxDeniedMs, batchSize, batchTtlMs',
+        'rules[1].limiter.type: expected one of sliding-window, sliding-window-counter, token-bucket, multi-tier, gcra, calendar-quota',
+      ]);
+    }
+  });
+
+  test('rejects unknown rule fields and limiter parameters', () => {
+    const misspelt = {
+      rules: [
+        {
+          name: 'writes',
+          path: '/api/*',
+          method: ['POST'],
+          limiter: { type: 'sliding-window', windowMs: 1000, requestLimit: 5 },
+        },
+        {
+          name: 'bursty',
+          path: '/api/*',
+          limiter: {
+            type: 'sliding-window',
+            windowMs: 1000,
+            requestLimit: 5,
+            burst: 10,
+          },
+        },
+        {
+          name: 'tiered',
+          path: '/api/*',
+          limiter: {
+            type: 'multi-tier',
+            tiers: [
+              { name: 'second', windowMs: 1000, requestLimit: 5, burst: 1 },
+            ],
+          },
+        },
+      ],
+    };
+
+    expect(() => validateRateLimitRules(misspelt)).toThrow(RateLimitRulesError);
+    try {
+      validateRateLimitRules(misspelt);
+    } catch (error) {
+      expect((error as RateLimitRulesError).issues).toEqual([
+        'rules[0].method: expected one of name, path, methods, plans, limiter, failurePolicy, shadow, localPreCheck',
+        'rules[1].limiter.burst: not a sliding-window parameter, expected one of type, windowMs, requestLimit',
+        'rules[2].limiter.tiers[0].burst: expected one of name, windowMs, requestLimit',
+      ]);
+    }
+  });
+
+  test('accepts the optional parameters of each limiter type', () => {
+    expect(() =>
+      validateRateLimitRules({
+        rules: [
+          {
+            name: 'gcra',
+            path: '/api/*',
+            limiter: {
+              type: 'gcra',
+              windowMs: 1000,
+              requestLimit: 5,
+              burst: 2,
+            },
+          },
+          {
+            name: 'weekly',
+            path: '/api/*',
+            limiter: {
+              type: 'calendar-quota',
+              period: 'week',
+              requestLimit: 1000,
+              timeZone: 'Europe/Berlin',
+              weekStartsOn: 0,
+            },
+          },
+        ],
+      })
+    ).not.toThrow();
+  });
+
+  test('rejects limiter types named after object properties', () => {
+    for (const type of ['toString', 'constructor', '__proto__']) {
+      expect(() =>
+        validateRateLimitRules({
+          rules: [{ name: 'a', path: '/api/*', limiter: { type } }],
+        })
+      ).toThrow(
+        'rules[0].limiter.type: expected one of sliding-window, sliding-window-counter, token-bucket, multi-tier, gcra, calendar-quota'
+      );
+    }
+  });
+});
@@ -0,0 +1,42 @@
+import request from 'supertest';
+import express from 'express';
+import { createRateLimitMiddleware } from '../src/middleware';
+import { InMemoryRateLimiter } from '../src/memory/in-memory-rate-limiter';
+import { ShadowRejectionTracker } from '../src/shadow-rejection-tracker';
+
+describe('Rate Limiter Shadow Mode', () => {
+  test('passes every request on and records would-be rejections', async () => {
+    const record = jest.fn();
+    const onRateLimitResult = jest.fn();
+    const app = express();
+    app.get(
+      '/api/test',
+      createRateLimitMiddleware(
+        new InMemoryRateLimiter({ windowMs: 60000, requestLimit: 2 }),
+        () => 'client',
+        {
+          policyName: 'candidate',
+          shadow: true,
+          shadowRejections: { record } as unknown as ShadowRejectionTracker,
+          onRateLimitResult,
+        }
+      ),
+      (req, res) => {
+        res.json({ success: true });
+      }
+    );
+
+    for (let i = 0; i < 4; i++) {
+      const response = await request(app).get('/api/test');
+      expect(response.status).toBe(200);
+      expect(response.headers['x-ratelimit-limit']).toBeUndefined();
+    }
+
+    expect(record).toHaveBeenCalledTimes(2);
+    expect(record).toHaveBeenCalledWith('candidate', 'rate_limit:client');
+    expect(onRateLimitResult).toHaveBeenCalledTimes(4);
+    expect(onRateLimitResult).toHaveBeenCalledWith(
+      expect.objectContaining({ shadow: true })
+    );
+  });
+});
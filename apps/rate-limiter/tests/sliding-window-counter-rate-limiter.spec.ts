@@ -0,0 +1,63 @@
+import { ValkeyClient } from '@valkey-use-cases/shared';
+import { SlidingWindowCounterRateLimiter } from '../src/valkey/sliding-window-counter-rate-limiter';
+
+describe('Sliding Window Counter Rate Limiter', () => {
+  const redis = ValkeyClient.getInstance();
+
+  beforeEach(async () => {
+    const keys = await redis.keys('rate_limit:*');
+    if (keys.length > 0) {
+      await redis.del(...keys);
+    }
+  });
+
+  afterAll(async () => {
+    await ValkeyClient.disconnect();
+  });
+
+  test('weighs the previous window by its overlap', async () => {
+    const windowMs = 10000;
+    const rateLimiter = new SlidingWindowCounterRateLimiter({
+      redis,
+      windowMs,
+      requestLimit: 100,
+    });
+    const key = 'rate_limit:sliding-window-counter-test';
+
+    // Windows follow the server clock
+    const serverNow = async () => {
+      const [seconds, micros] = await redis.time();
+      return Number(seconds) * 1000 + Math.floor(Number(micros) / 1000);
+    };
+    let before = await serverNow();
+    if (before % windowMs > windowMs - 1000) {
+      // Too close to the boundary for the window to stay current
+      await new Promise(resolve =>
+        setTimeout(resolve, windowMs - (before % windowMs) + 10)
+      );
+      before = await serverNow();
+    }
+
+    // A full previous window, of which (1 - elapsed) still overlaps
+    const previousWindow = Math.floor(before / windowMs) - 1;
+    await redis.hset(key, String(previousWindow), 100);
+
+    const result = await rateLimiter.inspect(key);
+    const after = await serverNow();
+    expect(result.remainingRequests).toBeGreaterThanOrEqual(
+      Math.floor(((before % windowMs) / windowMs) * 100)
+    );
+    expect(result.remainingRequests).toBeLessThanOrEqual(
+      Math.floor(((after % windowMs) / windowMs) * 100)
+    );
+
+    // The estimate drops by one request every windowMs / requestLimit
+    const denied = await rateLimiter.acquirePermit(
+      key,
+      result.remainingRequests + 2
+    );
+    expect(denied.allowed).toBe(false);
+    expect(denied.retryAfterMs).toBeGreaterThan(0);
+    expect(denied.retryAfterMs).toBeLessThanOrEqual(2 * (windowMs / 100));
+  });
+});
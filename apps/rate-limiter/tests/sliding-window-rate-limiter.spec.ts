@@ -0,0 +1,102 @@
+import { ValkeyClient } from '@valkey-use-cases/shared';
+import { SlidingWindowRateLimiter } from '../src/valkey/sliding-window-rate-limiter';
+
+describe('Sliding Window Rate Limiter', () => {
+  const redis = ValkeyClient.getInstance();
+
+  beforeEach(async () => {
+    const keys = await redis.keys('rate_limit:*');
+    if (keys.length > 0) {
+      await redis.del(...keys);
+    }
+  });
+
+  afterAll(async () => {
+    await ValkeyClient.disconnect();
+  });
+
+  test('admits exactly requestLimit permits when acquired concurrently on one key', async () => {
+    const requestLimit = 5;
+    const rateLimiter = new SlidingWindowRateLimiter({
+      redis,
+      windowMs: 10000,
+      requestLimit,
+    });
+
+    const results = await Promise.all(
+      Array.from({ length: 100 }, () =>
+        rateLimiter.acquirePermit('rate_limit:concurrency-test')
+      )
+    );
+
+    const allowed = results.filter(r => r.allowed);
+    expect(allowed).toHaveLength(requestLimit);
+    expect(allowed.map(r => r.remainingRequests).sort()).toEqual([
+      0, 1, 2, 3, 4,
+    ]);
+  }, 10000);
+
+  test('reports the time until the oldest request leaves the window', async () => {
+    const rateLimiter = new SlidingWindowRateLimiter({
+      redis,
+      windowMs: 1000,
+      requestLimit: 2,
+    });
+    const key = 'rate_limit:retry-after-test';
+
+    await rateLimiter.acquirePermit(key);
+    await new Promise(resolve => setTimeout(resolve, 300));
+    await rateLimiter.acquirePermit(key);
+
+    const denied = await rateLimiter.acquirePermit(key);
+
+    expect(denied.allowed).toBe(false);
+    expect(denied.retryAfterSeconds).toBe(1);
+    // The first request was ~300ms ago, so its slot frees up in ~700ms
+    expect(denied.retryAfterMs).toBeGreaterThan(0);
+    expect(denied.retryAfterMs).toBeLessThanOrEqual(750);
+  }, 10000);
+
+  test('charges weighted requests by their cost', async () => {
+    const rateLimiter = new SlidingWindowRateLimiter({
+      redis,
+      windowMs: 10000,
+      requestLimit: 5,
+    });
+    const key = 'rate_limit:cost-test';
+
+    const first = await rateLimiter.acquirePermit(key, 3);
+    expect(first.allowed).toBe(true);
+    expect(first.remainingRequests).toBe(2);
+
+    const tooExpensive = await rateLimiter.acquirePermit(key, 3);
+    expect(tooExpensive.allowed).toBe(false);
+    expect(tooExpensive.remainingRequests).toBe(2);
+    expect(tooExpensive.retryAfterMs).toBeGreaterThan(9000);
+
+    const fits = await rateLimiter.acquirePermit(key, 2);
+    expect(fits.allowed).toBe(true);
+    expect(fits.remainingRequests).toBe(0);
+  }, 10000);
+
+  test('inspects a key without consuming it and resets it', async () => {
+    const rateLimiter = new SlidingWindowRateLimiter({
+      redis,
+      windowMs: 60000,
+      requestLimit: 2,
+    });
+    const key = 'rate_limit:inspect-test';
+
+    await rateLimiter.acquirePermit(key);
+    const peek = await rateLimiter.inspect(key);
+    expect(peek.allowed).toBe(true);
+    expect(peek.remainingRequests).toBe(1);
+    expect((await rateLimiter.inspect(key)).remainingRequests).toBe(1);
+
+    await rateLimiter.acquirePermit(key);
+    expect((await rateLimiter.inspect(key)).allowed).toBe(false);
+
+    await rateLimiter.reset(key);
+    expect((await rateLimiter.inspect(key)).remainingRequests).toBe(2);
+  });
+});
@@ -0,0 +1,59 @@
+import { ValkeyClient } from '@valkey-use-cases/shared';
+import { TokenBucketRateLimiter } from '../src/valkey/token-bucket-rate-limiter';
+
+describe('Token Bucket Rate Limiter', () => {
+  const redis = ValkeyClient.getInstance();
+
+  beforeEach(async () => {
+    const keys = await redis.keys('rate_limit:*');
+    if (keys.length > 0) {
+      await redis.del(...keys);
+    }
+  });
+
+  afterAll(async () => {
+    await ValkeyClient.disconnect();
+  });
+
+  test('admits a burst up to its capacity', async () => {
+    const rateLimiter = new TokenBucketRateLimiter({
+      redis,
+      bucketCapacity: 3,
+      refillRatePerSecond: 10,
+    });
+    const key = 'rate_limit:token-bucket-burst-test';
+
+    const burst = await Promise.all(
+      Array.from({ length: 4 }, () => rateLimiter.acquirePermit(key))
+    );
+    expect(burst.filter(r => r.allowed)).toHaveLength(3);
+
+    // One token comes back every 100ms
+    const rejected = burst.find(r => !r.allowed)!;
+    expect(rejected.retryAfterMs).toBeGreaterThan(0);
+    expect(rejected.retryAfterMs).toBeLessThanOrEqual(100);
+  });
+
+  test('refills at its rate, up to its capacity', async () => {
+    const rateLimiter = new TokenBucketRateLimiter({
+      redis,
+      bucketCapacity: 3,
+      refillRatePerSecond: 10,
+    });
+    const key = 'rate_limit:token-bucket-refill-test';
+
+    await rateLimiter.acquirePermit(key, 3);
+    expect((await rateLimiter.acquirePermit(key)).allowed).toBe(false);
+
+    // 250ms refill 2.5 tokens: two whole requests fit, a third does not
+    await new Promise(resolve => setTimeout(resolve, 250));
+    expect((await rateLimiter.acquirePermit(key)).allowed).toBe(true);
+    expect((await rateLimiter.acquirePermit(key)).allowed).toBe(true);
+    expect((await rateLimiter.acquirePermit(key)).allowed).toBe(false);
+
+    // Tokens never pile up beyond the capacity, however long the bucket idles
+    await new Promise(resolve => setTimeout(resolve, 600));
+    expect((await rateLimiter.inspect(key)).remainingRequests).toBe(3);
+    expect((await rateLimiter.acquirePermit(key, 4)).allowed).toBe(false);
+  });
+});
@@ -1,19 +1,80 @@
-import type { Redis } from 'ioredis';
-import type {
-  WarmingOptions,
-  WarmingResult,
-  BatchMetric,
-  CacheResponse,
-} from '../interfaces';
-import {
-  simulateExpensiveOperationBatch,
-  chunkArray,
-} from '../../utils/expensive-operation';
+import type { Cache } from './cache';
+import { chunkArray } from '@valkey-use-cases/shared';
+
+export interface WarmingOptions {
+  keys?: string[];
+  batchSize?: number;
+  ttlSeconds?: number;
+  delayMs?: number;
+}
+
+export interface BatchMetric {
+  batchNumber: number;
+  keysInBatch: number;
+  timeMs: number;
+}
+
+export interface WarmingMetadata {
+  totalKeys: number;
+  successCount: number;
+  failureCount: number;
+  totalTimeMs: number;
+  batchMetrics: BatchMetric[];
+}
+
+export interface WarmingResult {
+  success: boolean;
+  metadata: WarmingMetadata;
+}
+
+interface CacheWarmerOptions<T> {
+  cache: Cache<T>;
+  /**
+   * Keys to warm when warm() is called without explicit keys
+   *
+   * EDUCATIONAL NOTE - In production, key identification strategies include:
+   *
+   * 1. Analytics-based: Query most-accessed keys from logs/database
+   *    Example:
+   *    ```sql
+   *    SELECT key, COUNT(*) as hits
+   *    FROM access_logs
+   *    WHERE timestamp > NOW() - INTERVAL '7 days'
+   *    GROUP BY key
+   *    ORDER BY hits DESC
+   *    LIMIT 100
+   *    ```
+   *
+   * 2. Redis monitoring: Analyze MONITOR output or use redis-rdb-tools
+   *    to identify frequently accessed keys
+   *
+   * 3. Business logic: Domain-specific hot data
+   *    - Featured products in e-commerce
+   *    - VIP user profiles
+   *    - Trending content
+   *    - Global configuration
+   *    - Homepage data
+   *
+   * 4. Machine Learning: Predict likely access patterns
+   *    - Time of day patterns
+   *    - Day of week trends
+   *    - Seasonal variations
+   *    - Event-driven predictions
+   *
+   * 5. Hybrid approach: Combine multiple strategies
+   *    - Critical keys (always warm)
+   *    - Analytics-driven keys (dynamic)
+   *    - Predicted keys (ML-based)
+   */
+  keys: () => string[] | Promise<string[]>;
+  /** Keys loaded per source call (default: 10) */
+  batchSize?: number;
+}
 
 /**
- * Cache Warming Service
+ * Cache Warmer
  *
- * Implements proactive cache warming (pre-loading) pattern.
+ * Implements proactive cache warming (pre-loading) for a Cache.
  * Unlike reactive patterns (cache-aside, read-through), this service loads
  * data into the cache BEFORE requests arrive, eliminating cold start penalties.
  *
@@ -23,33 +84,36 @@ import {
  * - Scheduled warming (maintain cache during off-peak hours)
  * - Pre-event warming (prepare for anticipated traffic spikes)
  */
-export class CacheWarmingService {
-  private readonly KEY_PREFIX = 'cache-warming:';
-  private readonly DEFAULT_TTL = 3600; // 1 hour
-  private readonly DEFAULT_BATCH_SIZE = 10;
+export class CacheWarmer<T> {
+  private readonly cache: Cache<T>;
+  private readonly keys: () => string[] | Promise<string[]>;
+  private readonly batchSize: number;
   private scheduledInterval?: ReturnType<typeof setInterval>;
 
-  constructor(private readonly redis: Redis) {}
+  constructor(options: CacheWarmerOptions<T>) {
+    this.cache = options.cache;
+    this.keys = options.keys;
+    this.batchSize = options.batchSize ?? 10;
+  }
 
   /**
    * Main warming method - loads keys into cache with controlled batch processing
    *
    * This method:
-   * 1. Determines which keys to warm (default: getCacheKeysToWarm())
+   * 1. Determines which keys to warm (default: the `keys` option)
    * 2. Splits keys into batches based on batch size limit
-   * 3. Processes batches sequentially, keys within batch in parallel
+   * 3. Processes batches sequentially, loading each batch with one getMany
    * 4. Tracks timing and success/failure per batch
    * 5. Returns comprehensive metrics
    *
    * @param options - Optional configuration
    * @returns WarmingResult with detailed metrics
    */
-  async warmCache(options?: WarmingOptions): Promise<WarmingResult> {
+  async warm(options?: WarmingOptions): Promise<WarmingResult> {
     const startTime = Date.now();
-    const keys = options?.keys || this.getCacheKeysToWarm();
-    const batchSize = options?.batchSize || this.DEFAULT_BATCH_SIZE;
-    const ttl = options?.ttl || this.DEFAULT_TTL;
-    const delay = options?.delay || 1000;
+    const keys = options?.keys || (await this.keys());
+    const batchSize = options?.batchSize || this.batchSize;
+    const ttl = options?.ttlSeconds || this.cache.ttlSeconds;
 
     // Split keys into chunks for batch processing
     const batches = chunkArray(keys, batchSize);
@@ -60,7 +124,7 @@ export class CacheWarmingService {
     // Process each batch sequentially
     for (let i = 0; i < batches.length; i++) {
       const batch = batches[i];
-      const batchResult = await this.processBatch(batch, delay, ttl);
+      const batchResult = await this.processBatch(batch, ttl, options?.delayMs);
 
       batchMetrics.push({
         batchNumber: i + 1,
@@ -90,84 +154,6 @@ export class CacheWarmingService {
     return result;
   }
 
-  /**
-   * Generates list of keys to warm (100 sample keys)
-   *
-   * EDUCATIONAL NOTE - In production, key identification strategies include:
-   *
-   * 1. Analytics-based: Query most-accessed keys from logs/database
-   *    Example:
-   *    ```sql
-   *    SELECT key, COUNT(*) as hits
-   *    FROM access_logs
-   *    WHERE timestamp > NOW() - INTERVAL '7 days'
-   *    GROUP BY key
-   *    ORDER BY hits DESC
-   *    LIMIT 100
-   *    ```
-   *
-   * 2. Redis monitoring: Analyze MONITOR output or use redis-rdb-tools
-   *    to identify frequently accessed keys
-   *
-   * 3. Business logic: Domain-specific hot data
-   *    - Featured products in e-commerce
-   *    - VIP user profiles
-   *    - Trending content
-   *    - Global configuration
-   *    - Homepage data
-   *
-   * 4. Machine Learning: Predict likely access patterns
-   *    - Time of day patterns
-   *    - Day of week trends
-   *    - Seasonal variations
-   *    - Event-driven predictions
-   *
-   * 5. Hybrid approach: Combine multiple strategies
-   *    - Critical keys (always warm)
-   *    - Analytics-driven keys (dynamic)
-   *    - Predicted keys (ML-based)
-   *
-   * @returns Array of keys to warm
-   */
-  getCacheKeysToWarm(): string[] {
-    // Generate 100 sample keys for demonstration
-    return Array.from({ length: 100 }, (_, i) => `item${i + 1}`);
-  }
-
-  /**
-   * Retrieve a warmed key from cache
-   *
-   * IMPORTANT: This method does NOT fall back to loading data if not found.
-   * Cache warming is proactive - keys must be explicitly warmed beforehand.
-   * This demonstrates the difference from reactive patterns (cache-aside).
-   *
-   * @param key - The key to retrieve (without prefix)
-   * @returns CacheResponse if found, null if not found
-   */
-  async get(key: string): Promise<CacheResponse<any> | null> {
-    const startTime = Date.now();
-    const fullKey = `${this.KEY_PREFIX}${key}`;
-
-    const cached = await this.redis.get(fullKey);
-
-    if (!cached) {
-      return null;
-    }
-
-    const ttl = await this.redis.ttl(fullKey);
-    const timeTaken = Date.now() - startTime;
-
-    return {
-      data: JSON.parse(cached),
-      metadata: {
-        key,
-        source: 'cache',
-        timeTaken,
-        ttl: ttl > 0 ? ttl : undefined,
-      },
-    };
-  }
-
   /**
    * Start scheduled warming with setInterval
    *
@@ -213,7 +199,7 @@ export class CacheWarmingService {
     this.scheduledInterval = setInterval(async () => {
       try {
         console.log('[Cache Warming] Starting scheduled Cache warming...');
-        await this.warmCache();
+        await this.warm();
       } catch (error) {
         console.error('[Cache Warming] Scheduled warming failed:', error);
         // In production: emit metrics, send alerts, but don't crash
@@ -238,31 +224,35 @@ export class CacheWarmingService {
   }
 
   /**
-   * Internal: Process a batch of keys in parallel
+   * Internal: Load a batch of keys with one source call and cache them in
+   * parallel
    *
-   * @param keys - Batch of keys to process
-   * @param delay - Simulated operation delay
-   * @param ttl - Cache TTL in seconds
    * @returns Batch processing result with metrics
    */
   private async processBatch(
     keys: string[],
-    delay: number,
-    ttl: number
+    ttl: number,
+    delayMs?: number
   ): Promise<{ successCount: number; failureCount: number; timeMs: number }> {
     const startTime = Date.now();
     let successCount = 0;
     let failureCount = 0;
 
-    // Load data for all keys in batch (simulates fetching from source)
-    const results = await simulateExpensiveOperationBatch(keys, delay);
+    // Load data for all keys in batch with a single source call
+    const values = await this.cache.source.getMany(keys, { delayMs });
 
     // Store all results in cache in parallel
     await Promise.all(
-      results.map(async ({ key, data }) => {
+      keys.map(async (key, i) => {
+        const value = values[i];
+        if (value === null) {
+          console.error(`[Cache Warming] Key not found in source: ${key}`);
+          failureCount++;
+          return;
+        }
+
         try {
-          const fullKey = `${this.KEY_PREFIX}${key}`;
-          await this.redis.setex(fullKey, ttl, JSON.stringify(data));
+          await this.cache.set(key, value, ttl);
           successCount++;
         } catch (error) {
           console.error(`[Cache Warming] Failed to cache key: ${key}`, error);
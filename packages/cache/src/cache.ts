@@ -0,0 +1,347 @@
+import type { Redis } from 'ioredis';
+import type {
+  CacheHitStats,
+  CacheLookup,
+  Codec,
+  DataSource,
+  DataSourceOptions,
+  ReadStrategy,
+  WriteResult,
+  WriteStrategy,
+} from './types';
+import { MissingDataSourceError } from './errors';
+import { ReadThroughStrategy } from './strategies/read-through.strategy';
+import { WriteThroughStrategy } from './strategies/write-through.strategy';
+import type { TagIndex } from './tag-index';
+import { LocalCache, type LocalCacheOptions } from './local-cache';
+import { ValueSerializer } from './value-serializer';
+
+export interface CacheTagging<T> {
+  /** Index the tags are kept in, usually shared by all caches */
+  index: TagIndex;
+  /** Tags of a value, computed whenever it is stored (on write and on load) */
+  tags: (key: string, value: T) => string[];
+}
+
+export interface CacheOptions<T> {
+  redis: Redis;
+  /** Namespace of the cache, prefixed to every key (`<name>:<key>`) */
+  name: string;
+  /** TTL in seconds for cached entries (default: 3600) */
+  ttlSeconds?: number;
+  /** System of record that misses are loaded from and writes go to */
+  source?: DataSource<T>;
+  /** How getOrLoad serves keys (default: ReadThroughStrategy) */
+  readStrategy?: ReadStrategy<T>;
+  /** How write propagates values (default: WriteThroughStrategy) */
+  writeStrategy?: WriteStrategy<T>;
+  /** How values are encoded in Valkey (default: JsonCodec) */
+  codec?: Codec;
+  /** Custom codecs that entries written by other deployments may use */
+  codecs?: Codec[];
+  /** Tag stored values, so they can be invalidated by tag */
+  tagging?: CacheTagging<T>;
+  /**
+   * Keep hot values in an in-process LRU (L1) in front of Valkey. Processes
+   * sharing the cache should all enable it, since only they publish
+   * invalidations.
+   */
+  localCache?: LocalCacheOptions;
+}
+
+/**
+ * Typed cache over Valkey
+ *
+ * The cache-level operations (get, set, mget, invalidate) only touch Valkey.
+ * getOrLoad and write also involve the data source, following the configured
+ * read and write strategies:
+ *
+ * ```typescript
+ * const users = new Cache<User>({
+ *   redis,
+ *   name: 'user',
+ *   source: userTable,
+ *   readStrategy: new StampedeProtectionStrategy(),
+ * });
+ * const user = await users.getOrLoad('42'); // User | null
+ * ```
+ *
+ * Values are encoded by the configured codec, behind a header naming it (see
+ * ValueSerializer), so the codec can change without flushing the cache. Keys
+ * missing from the source are never cached, so a later write to the source is
+ * picked up by the next read.
+ *
+ * With a local cache, hits on hot keys are served from memory (L1) and only
+ * misses go to Valkey (L2); see LocalCache for how copies are invalidated.
+ *
+ * Redis Commands: GET, MGET, SET with EX, PTTL, DEL, PUBLISH
+ */
+export class Cache<T> {
+  readonly redis: Redis;
+  readonly name: string;
+  readonly ttlSeconds: number;
+  readonly serializer: ValueSerializer;
+  private readonly dataSource?: DataSource<T>;
+  private readonly readStrategy: ReadStrategy<T>;
+  private readonly writeStrategy: WriteStrategy<T>;
+  private readonly tagging?: CacheTagging<T>;
+  private readonly local?: LocalCache;
+  private readonly hits = { l1Hits: 0, l2Hits: 0, misses: 0 };
+
+  constructor(options: CacheOptions<T>) {
+    this.redis = options.redis;
+    this.name = options.name;
+    this.ttlSeconds = options.ttlSeconds ?? 3600;
+    this.serializer = new ValueSerializer({
+      codec: options.codec,
+      codecs: options.codecs,
+    });
+    this.tagging = options.tagging;
+    if (options.localCache) {
+      this.local = new LocalCache(options.redis, options.localCache);
+    }
+    this.dataSource = options.source;
+    this.readStrategy = options.readStrategy ?? new ReadThroughStrategy();
+    this.writeStrategy = options.writeStrategy ?? new WriteThroughStrategy();
+  }
+
+  /**
+   * The data source, for strategies that load or write
+   *
+   * @throws MissingDataSourceError if the cache was created without one
+   */
+  get source(): DataSource<T> {
+    if (!this.dataSource) {
+      throw new MissingDataSourceError(this.name);
+    }
+    return this.dataSource;
+  }
+
+  /**
+   * Full Valkey key of a cache key, e.g. `user:42`
+   */
+  redisKey(key: string): string {
+    return `${this.name}:${key}`;
+  }
+
+  /**
+   * Read a key from the cache only, without loading it on a miss
+   *
+   * @returns The cached value, or null on a miss
+   */
+  async get(key: string): Promise<T | null> {
+    return (await this.getWithMetadata(key)).value;
+  }
+
+  /**
+   * Like get, with the remaining TTL of a hit and the level serving it
+   */
+  async getWithMetadata(key: string): Promise<CacheLookup<T>> {
+    const fullKey = this.redisKey(key);
+
+    const local = this.local?.get(fullKey);
+    if (local) {
+      this.hits.l1Hits++;
+      return {
+        key,
+        value: this.decode(local.data),
+        source: 'cache',
+        level: 'l1',
+        ttl: toSeconds(local.ttlMs),
+      };
+    }
+
+    const generation = this.local?.generation ?? 0;
+    const [cached] = await this.fetch([fullKey]);
+
+    if (cached.data === null) {
+      this.hits.misses++;
+      return { key, value: null, source: 'cache' };
+    }
+
+    this.hits.l2Hits++;
+    this.local?.set(fullKey, cached.data, cached.ttlMs, generation);
+    return {
+      key,
+      value: this.decode(cached.data),
+      source: 'cache',
+      level: 'l2',
+      ttl: toSeconds(cached.ttlMs),
+    };
+  }
+
+  /**
+   * Read several keys from the cache only, in a single round trip. Without
+   * a local cache, that is one MGET.
+   *
+   * @returns Values in the order of `keys`, null for misses
+   */
+  async mget(keys: string[]): Promise<(T | null)[]> {
+    if (keys.length === 0) {
+      return [];
+    }
+
+    const fullKeys = keys.map(key => this.redisKey(key));
+
+    if (!this.local) {
+      const cached = await this.redis.mgetBuffer(fullKeys);
+      return cached.map(data => {
+        if (data === null) {
+          this.hits.misses++;
+          return null;
+        }
+        this.hits.l2Hits++;
+        return this.decode(data);
+      });
+    }
+
+    const local = this.local;
+    const values = new Map<string, T | null>();
+    for (const fullKey of fullKeys) {
+      const entry = local.get(fullKey);
+      if (entry) {
+        this.hits.l1Hits++;
+        values.set(fullKey, this.decode(entry.data));
+      }
+    }
+
+    const missing = fullKeys.filter(fullKey => !values.has(fullKey));
+    if (missing.length > 0) {
+      const generation = local.generation;
+      const fetched = await this.fetch(missing);
+
+      missing.forEach((fullKey, i) => {
+        const { data, ttlMs } = fetched[i];
+        if (data === null) {
+          this.hits.misses++;
+          values.set(fullKey, null);
+          return;
+        }
+        this.hits.l2Hits++;
+        local.set(fullKey, data, ttlMs, generation);
+        values.set(fullKey, this.decode(data));
+      });
+    }
+
+    return fullKeys.map(fullKey => values.get(fullKey) ?? null);
+  }
+
+  /**
+   * Where reads were served from since the cache was created
+   */
+  hitStats(): CacheHitStats {
+    return {
+      ...this.hits,
+      l1Entries: this.local?.size,
+      l1Bytes: this.local?.sizeBytes,
+    };
+  }
+
+  /**
+   * Read a key, loading it from the source on a miss as the read strategy
+   * decides
+   *
+   * @returns The value, or null if neither the cache nor the source has it
+   */
+  async getOrLoad(key: string, options?: DataSourceOptions): Promise<T | null> {
+    return (await this.getOrLoadWithMetadata(key, options)).value;
+  }
+
+  /**
+   * Like getOrLoad, with where the value came from and its remaining TTL
+   */
+  async getOrLoadWithMetadata(
+    key: string,
+    options?: DataSourceOptions
+  ): Promise<CacheLookup<T>> {
+    return this.readStrategy.getOrLoad(this, key, options);
+  }
+
+  /**
+   * Store a value in the cache only, leaving the source untouched. With
+   * tagging, the value is stored and tagged in one step.
+   *
+   * @param ttlSeconds - Defaults to the cache's TTL
+   */
+  async set(key: string, value: T, ttlSeconds?: number): Promise<void> {
+    const fullKey = this.redisKey(key);
+    const data = this.serializer.serialize(value);
+    const ttl = ttlSeconds ?? this.ttlSeconds;
+    const tags = this.tagging?.tags(key, value) ?? [];
+
+    if (this.tagging && tags.length > 0) {
+      await this.tagging.index.setTagged(fullKey, data, ttl, tags);
+    } else {
+      await this.redis.set(fullKey, data, 'EX', ttl);
+    }
+
+    // Only once Valkey has the new value, so no process reloads the old one
+    await this.local?.publish(this.redis, fullKey);
+  }
+
+  /**
+   * Write a value to the cache and the source, as the write strategy decides
+   */
+  async write(
+    key: string,
+    value: T,
+    options?: DataSourceOptions
+  ): Promise<WriteResult> {
+    return this.writeStrategy.write(this, key, value, options);
+  }
+
+  /**
+   * Remove a key from the cache
+   *
+   * @returns True if the key was cached
+   */
+  async invalidate(key: string): Promise<boolean> {
+    const fullKey = this.redisKey(key);
+    const deleted = await this.redis.del(fullKey);
+    await this.local?.publish(this.redis, fullKey);
+    return deleted > 0;
+  }
+
+  /**
+   * Stop the strategies' background work and the local cache's
+   * subscription. The Valkey connection and the data source are left open,
+   * since they are usually shared.
+   */
+  async close(): Promise<void> {
+    await this.readStrategy.close?.();
+    await this.writeStrategy.close?.();
+    await this.local?.close();
+  }
+
+  private decode(data: Buffer): T {
+    return this.serializer.deserialize(data) as T;
+  }
+
+  // GET and PTTL of each key, pipelined into one round trip
+  private async fetch(
+    fullKeys: string[]
+  ): Promise<Array<{ data: Buffer | null; ttlMs: number }>> {
+    const pipeline = this.redis.pipeline();
+    for (const fullKey of fullKeys) {
+      pipeline.getBuffer(fullKey).pttl(fullKey);
+    }
+
+    const results = (await pipeline.exec()) ?? [];
+    for (const [error] of results) {
+      if (error) {
+        throw error;
+      }
+    }
+
+    return fullKeys.map((_, i) => ({
+      data: results[2 * i][1] as Buffer | null,
+      ttlMs: results[2 * i + 1][1] as number,
+    }));
+  }
+}
+
+// Remaining TTL in seconds, or undefined if the key has none
+function toSeconds(ttlMs: number): number | undefined {
+  const ttl = Math.round(ttlMs / 1000);
+  return ttl > 0 ? ttl : undefined;
+}
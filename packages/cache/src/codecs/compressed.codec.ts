@@ -0,0 +1,83 @@
+import zlib from 'zlib';
+import type { Codec } from '../types';
+import { JsonCodec } from './json.codec';
+
+export type CompressionAlgorithm = 'gzip' | 'brotli';
+
+interface CompressedCodecOptions {
+  /** Codec producing the bytes to compress (default: JsonCodec) */
+  codec?: Codec;
+  /** Compression algorithm (default: gzip) */
+  algorithm?: CompressionAlgorithm;
+  /** Payloads smaller than this are stored uncompressed (default: 1024) */
+  thresholdBytes?: number;
+}
+
+// First payload byte: whether the rest is compressed
+const UNCOMPRESSED = 0;
+const COMPRESSED = 1;
+
+const compressors: Record<
+  CompressionAlgorithm,
+  { compress(data: Buffer): Buffer; decompress(data: Buffer): Buffer }
+> = {
+  gzip: { compress: zlib.gzipSync, decompress: zlib.gunzipSync },
+  brotli: {
+    compress: zlib.brotliCompressSync,
+    decompress: zlib.brotliDecompressSync,
+  },
+};
+
+/**
+ * Compressed Codec
+ *
+ * Wraps another codec and compresses its output once it reaches a size
+ * threshold. Large JSON payloads often shrink several times over, which saves
+ * Valkey memory and network transfer. Small payloads are left alone, since
+ * compressing them costs CPU and can even make them larger.
+ *
+ * Trade-offs:
+ * - gzip: fast, moderate ratio
+ * - brotli: better ratio, slower to compress
+ *
+ * Compression runs synchronously on the event loop, which is fine for
+ * cache-sized values but not for multi-megabyte ones.
+ *
+ * The id combines the algorithm and the wrapped codec (e.g. `gzip+json`), so
+ * a reader knows both from the value's header.
+ */
+export class CompressedCodec implements Codec {
+  readonly id: string;
+  readonly version: number;
+  private readonly codec: Codec;
+  private readonly algorithm: CompressionAlgorithm;
+  private readonly thresholdBytes: number;
+
+  constructor(options: CompressedCodecOptions = {}) {
+    this.codec = options.codec ?? new JsonCodec();
+    this.algorithm = options.algorithm ?? 'gzip';
+    this.thresholdBytes = options.thresholdBytes ?? 1024;
+    this.id = `${this.algorithm}+${this.codec.id}`;
+    this.version = this.codec.version;
+  }
+
+  encode(value: unknown): Buffer {
+    const encoded = this.codec.encode(value);
+
+    if (encoded.length < this.thresholdBytes) {
+      return Buffer.concat([Buffer.from([UNCOMPRESSED]), encoded]);
+    }
+
+    const compressed = compressors[this.algorithm].compress(encoded);
+    return Buffer.concat([Buffer.from([COMPRESSED]), compressed]);
+  }
+
+  decode(payload: Buffer, version: number): unknown {
+    const body = payload.subarray(1);
+    const encoded =
+      payload[0] === COMPRESSED
+        ? compressors[this.algorithm].decompress(body)
+        : body;
+    return this.codec.decode(encoded, version);
+  }
+}
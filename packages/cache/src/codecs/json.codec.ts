@@ -0,0 +1,96 @@
+import type { Codec } from '../types';
+
+type TaggedValue =
+  | { $type: 'Date'; value: string }
+  | { $type: 'BigInt'; value: string }
+  | { $type: 'Map'; value: [unknown, unknown][] }
+  | { $type: 'Set'; value: unknown[] }
+  | { $type: 'Buffer'; value: string };
+
+// `this[key]` is the value before its toJSON ran, so Dates and Buffers can
+// still be told apart from the strings and objects they turn into
+function replacer(
+  this: Record<string, unknown>,
+  key: string,
+  value: unknown
+): unknown {
+  const original = this[key];
+
+  if (original instanceof Date) {
+    return { $type: 'Date', value: original.toISOString() };
+  }
+  if (typeof original === 'bigint') {
+    return { $type: 'BigInt', value: original.toString() };
+  }
+  if (original instanceof Map) {
+    return { $type: 'Map', value: [...original.entries()] };
+  }
+  if (original instanceof Set) {
+    return { $type: 'Set', value: [...original] };
+  }
+  if (Buffer.isBuffer(original)) {
+    return { $type: 'Buffer', value: original.toString('base64') };
+  }
+  return value;
+}
+
+function isTaggedValue(value: unknown): value is TaggedValue {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    '$type' in value &&
+    typeof value.$type === 'string' &&
+    'value' in value &&
+    Object.keys(value).length === 2
+  );
+}
+
+// Called bottom-up, so the entries of a Map or Set are already revived
+function reviver(_key: string, value: unknown): unknown {
+  if (!isTaggedValue(value)) {
+    return value;
+  }
+
+  switch (value.$type) {
+    case 'Date':
+      return new Date(value.value);
+    case 'BigInt':
+      return BigInt(value.value);
+    case 'Map':
+      return new Map(value.value);
+    case 'Set':
+      return new Set(value.value);
+    case 'Buffer':
+      return Buffer.from(value.value, 'base64');
+    default:
+      return value;
+  }
+}
+
+/**
+ * JSON Codec (default)
+ *
+ * Human-readable in valkey-cli, and readable from any language. Plain
+ * `JSON.stringify` turns a Date into a string, throws on a BigInt and drops
+ * the contents of a Map or Set, so those (and Buffers) are written as tagged
+ * objects instead:
+ *
+ * ```json
+ * { "createdAt": { "$type": "Date", "value": "2024-01-01T00:00:00.000Z" } }
+ * ```
+ *
+ * The flip side is that an object of your own with exactly the keys `$type`
+ * and `value` is read back as the tagged type.
+ */
+export class JsonCodec implements Codec {
+  readonly id = 'json';
+  readonly version = 1;
+
+  encode(value: unknown): Buffer {
+    return Buffer.from(JSON.stringify(value, replacer), 'utf8');
+  }
+
+  decode(payload: Buffer): unknown {
+    return JSON.parse(payload.toString('utf8'), reviver);
+  }
+}
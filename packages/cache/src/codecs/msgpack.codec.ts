@@ -0,0 +1,65 @@
+import { decode, encode, ExtensionCodec } from '@msgpack/msgpack';
+import type { Codec } from '../types';
+
+// MessagePack extension types for values it has no native type for. Dates
+// use the built-in timestamp extension.
+const MAP_EXT = 0;
+const SET_EXT = 1;
+const BIGINT_EXT = 2;
+const BUFFER_EXT = 3;
+
+const extensionCodec = new ExtensionCodec();
+
+extensionCodec.register({
+  type: MAP_EXT,
+  encode: input =>
+    input instanceof Map
+      ? encode([...input.entries()], { extensionCodec })
+      : null,
+  decode: data =>
+    new Map(decode(data, { extensionCodec }) as [unknown, unknown][]),
+});
+
+extensionCodec.register({
+  type: SET_EXT,
+  encode: input =>
+    input instanceof Set ? encode([...input], { extensionCodec }) : null,
+  decode: data => new Set(decode(data, { extensionCodec }) as unknown[]),
+});
+
+// As a decimal string rather than int64, which would also turn large plain
+// numbers into BigInts on decode
+extensionCodec.register({
+  type: BIGINT_EXT,
+  encode: input =>
+    typeof input === 'bigint' ? Buffer.from(input.toString(), 'utf8') : null,
+  decode: data => BigInt(Buffer.from(data).toString('utf8')),
+});
+
+// Binary data decodes as a Uint8Array, so tag Buffers to get them back
+extensionCodec.register({
+  type: BUFFER_EXT,
+  encode: input => (Buffer.isBuffer(input) ? input : null),
+  decode: data => Buffer.from(data),
+});
+
+/**
+ * MessagePack Codec
+ *
+ * A compact binary encoding, usually smaller than JSON and faster to
+ * decode, at the cost of values no longer being readable in valkey-cli. Keeps
+ * Date, BigInt, Map, Set and Buffer values, using extension types.
+ */
+export class MessagePackCodec implements Codec {
+  readonly id = 'msgpack';
+  readonly version = 1;
+
+  encode(value: unknown): Buffer {
+    const encoded = encode(value, { extensionCodec });
+    return Buffer.from(encoded.buffer, encoded.byteOffset, encoded.byteLength);
+  }
+
+  decode(payload: Buffer): unknown {
+    return decode(payload, { extensionCodec });
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Thrown when an operation needs the cache's data source, but the cache was
+ * created without one.
+ */
+export class MissingDataSourceError extends Error {
+  constructor(cacheName: string) {
+    super(`Cache "${cacheName}" has no data source to load from or write to`);
+    this.name = 'MissingDataSourceError';
+  }
+}
+
+/**
+ * Thrown when a stored value was encoded by a codec, or a version of it,
+ * that the reader does not know, e.g. an entry written by a newer deployment.
+ */
+export class UnsupportedCodecError extends Error {
+  readonly codecId: string;
+  readonly codecVersion: number;
+
+  constructor(codecId: string, codecVersion: number) {
+    super(
+      `Value was encoded with codec "${codecId}" v${codecVersion}, which is not registered`
+    );
+    this.name = 'UnsupportedCodecError';
+    this.codecId = codecId;
+    this.codecVersion = codecVersion;
+  }
+}
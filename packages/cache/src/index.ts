@@ -0,0 +1,16 @@
+export * from './types';
+export * from './errors';
+export * from './cache';
+export * from './cache-warmer';
+export * from './value-serializer';
+export * from './tag-index';
+export * from './local-cache';
+export * from './codecs/json.codec';
+export * from './codecs/msgpack.codec';
+export * from './codecs/compressed.codec';
+export * from './strategies/cache-aside.strategy';
+export * from './strategies/read-through.strategy';
+export * from './strategies/refresh-ahead.strategy';
+export * from './strategies/stampede-protection.strategy';
+export * from './strategies/write-through.strategy';
+export * from './strategies/write-behind.strategy';
@@ -0,0 +1,236 @@
+import type { Redis } from 'ioredis';
+
+/**
+ * Channel invalidated Valkey keys are published on, one key per message
+ */
+export const DEFAULT_INVALIDATION_CHANNEL = 'cache:invalidations';
+
+export interface LocalCacheOptions {
+  /** Most entries kept in memory (default: 1000) */
+  maxEntries?: number;
+  /** Most bytes of encoded values kept in memory (default: 10 MB) */
+  maxBytes?: number;
+  /** Longest an entry is kept, capped by its remaining TTL in Valkey (default: 30) */
+  ttlSeconds?: number;
+  /** Channel invalidations are broadcast on (default: `cache:invalidations`) */
+  channel?: string;
+}
+
+export interface LocalCacheEntry {
+  /** Encoded value, as stored in Valkey */
+  data: Buffer;
+  /** Remaining TTL of the value in Valkey, in ms */
+  ttlMs: number;
+}
+
+interface StoredEntry {
+  data: Buffer;
+  size: number;
+  expiresAt: number;
+  valkeyExpiresAt: number;
+}
+
+/**
+ * Local Cache (L1)
+ *
+ * An in-process LRU in front of Valkey (L2). A hit costs no round trip at
+ * all, which pays off for hot keys read many times per second by each
+ * process.
+ *
+ * The catch is that every process holds its own copies, which must not
+ * outlive a change made by any other process. Every write and invalidation
+ * of a key is therefore published on a channel, and each process drops its
+ * copy when the message arrives:
+ *
+ * Process A: SET user:42 → PUBLISH cache:invalidations user:42
+ * Process B: (message) → drop user:42 from L1 → next read goes to Valkey
+ *
+ * Races handled:
+ * - A value read from Valkey just before an invalidation could arrive after
+ *   it (replies and messages use different connections). Values are only
+ *   stored if no invalidation arrived while they were being read.
+ * - Messages published while the subscriber is disconnected are lost, so
+ *   the L1 is cleared and bypassed until it has subscribed again.
+ *
+ * Entries are kept encoded, which bounds memory by bytes and keeps callers
+ * from mutating each other's values, at the cost of decoding each hit.
+ *
+ * Redis Commands: SUBSCRIBE (on a dedicated connection), PUBLISH
+ */
+export class LocalCache {
+  readonly channel: string;
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private readonly ttlMs: number;
+  private readonly subscriber: Redis;
+  // Map iteration follows insertion order, so re-inserting an entry on each
+  // hit keeps the least recently used entry first
+  private readonly entries = new Map<string, StoredEntry>();
+  private bytes = 0;
+  private subscribed = false;
+  private invalidations = 0;
+
+  /**
+   * Subscribes to the invalidation channel right away. Until the
+   * subscription is confirmed, reads bypass the L1.
+   */
+  constructor(redis: Redis, options: LocalCacheOptions = {}) {
+    this.channel = options.channel ?? DEFAULT_INVALIDATION_CHANNEL;
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+    this.ttlMs = (options.ttlSeconds ?? 30) * 1000;
+
+    // A client in SUBSCRIBE mode cannot run other commands
+    this.subscriber = redis.duplicate();
+    this.subscriber.on('message', (channel: string, key: string) => {
+      if (channel === this.channel) {
+        this.delete(key);
+      }
+    });
+    this.subscriber.on('close', () => {
+      this.subscribed = false;
+      this.clear();
+    });
+    // Also fires after a reconnect, once ioredis has resubscribed
+    this.subscriber.on('ready', () => this.subscribe());
+    this.subscriber.on('error', error => {
+      console.error('[L1 Cache] Subscriber error:', error.message);
+    });
+  }
+
+  /** Number of entries currently held */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** Bytes of encoded values currently held */
+  get sizeBytes(): number {
+    return this.bytes;
+  }
+
+  /**
+   * Counter to pass to `set`, read before loading a value from Valkey
+   */
+  get generation(): number {
+    return this.invalidations;
+  }
+
+  /**
+   * @returns The entry, or undefined if it is missing or expired
+   */
+  get(key: string): LocalCacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    if (entry.expiresAt <= now) {
+      this.remove(key, entry);
+      return undefined;
+    }
+
+    // Mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return { data: entry.data, ttlMs: entry.valkeyExpiresAt - now };
+  }
+
+  /**
+   * Keep a value read from Valkey, unless an invalidation arrived since
+   * `generation` was read
+   *
+   * @param valkeyTtlMs - Remaining TTL of the value in Valkey (PTTL)
+   */
+  set(
+    key: string,
+    data: Buffer,
+    valkeyTtlMs: number,
+    generation: number
+  ): void {
+    if (
+      !this.subscribed ||
+      generation !== this.invalidations ||
+      valkeyTtlMs <= 0
+    ) {
+      return;
+    }
+
+    const size = data.length + Buffer.byteLength(key);
+    if (size > this.maxBytes) {
+      return;
+    }
+
+    const existing = this.entries.get(key);
+    if (existing) {
+      this.remove(key, existing);
+    }
+
+    const now = Date.now();
+    this.entries.set(key, {
+      data,
+      size,
+      expiresAt: now + Math.min(this.ttlMs, valkeyTtlMs),
+      valkeyExpiresAt: now + valkeyTtlMs,
+    });
+    this.bytes += size;
+
+    // Evict least recently used entries
+    for (const [oldestKey, oldest] of this.entries) {
+      if (this.entries.size <= this.maxEntries && this.bytes <= this.maxBytes) {
+        break;
+      }
+      this.remove(oldestKey, oldest);
+    }
+  }
+
+  /**
+   * Drop the local copy of a key. Other processes learn about the change
+   * from `publish`.
+   */
+  delete(key: string): void {
+    this.invalidations++;
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.remove(key, entry);
+    }
+  }
+
+  /**
+   * Tell every process, this one included, to drop its copy of `key`
+   *
+   * @param redis - A connection that is not in subscriber mode
+   */
+  async publish(redis: Redis, key: string): Promise<void> {
+    this.delete(key);
+    await redis.publish(this.channel, key);
+  }
+
+  clear(): void {
+    this.invalidations++;
+    this.entries.clear();
+    this.bytes = 0;
+  }
+
+  async close(): Promise<void> {
+    this.subscribed = false;
+    this.clear();
+    await this.subscriber.quit();
+  }
+
+  private async subscribe(): Promise<void> {
+    try {
+      await this.subscriber.subscribe(this.channel);
+      // Entries could have missed messages while unsubscribed
+      this.clear();
+      this.subscribed = true;
+    } catch (error) {
+      console.error('[L1 Cache] Failed to subscribe:', error);
+    }
+  }
+
+  private remove(key: string, entry: StoredEntry): void {
+    this.entries.delete(key);
+    this.bytes -= entry.size;
+  }
+}
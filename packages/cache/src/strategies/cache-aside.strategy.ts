@@ -0,0 +1,51 @@
+import type { Cache } from '../cache';
+import type { CacheLookup, DataSourceOptions, ReadStrategy } from '../types';
+
+interface CacheAsideStrategyOptions<T> {
+  /** Loads a missing key, or resolves to null if there is none */
+  load: (key: string, options?: DataSourceOptions) => Promise<T | null>;
+}
+
+/**
+ * Cache-Aside (Lazy Loading) Strategy
+ *
+ * The application, not the cache, knows how to load data:
+ * 1. Check cache (GET key)
+ * 2. If HIT → return cached data
+ * 3. If MISS → call the application's loader, store the result in cache
+ *    (SET key value EX ttl), return data
+ *
+ * Compared to read-through, the cache needs no data source: the loader can
+ * differ per cache and call anything (a query, an API, a computation).
+ * Writes go to the system of record directly and invalidate the cached key.
+ */
+export class CacheAsideStrategy<T> implements ReadStrategy<T> {
+  private readonly load: CacheAsideStrategyOptions<T>['load'];
+
+  constructor(options: CacheAsideStrategyOptions<T>) {
+    this.load = options.load;
+  }
+
+  async getOrLoad(
+    cache: Cache<T>,
+    key: string,
+    options?: DataSourceOptions
+  ): Promise<CacheLookup<T>> {
+    const cached = await cache.getWithMetadata(key);
+    if (cached.value !== null) {
+      return cached;
+    }
+
+    const value = await this.load(key, options);
+    if (value !== null) {
+      await cache.set(key, value);
+    }
+
+    return {
+      key,
+      value,
+      source: 'computed',
+      ttl: value !== null ? cache.ttlSeconds : undefined,
+    };
+  }
+}
@@ -0,0 +1,43 @@
+import type { Cache } from '../cache';
+import type { CacheLookup, DataSourceOptions, ReadStrategy } from '../types';
+
+/**
+ * Read-Through Strategy
+ *
+ * The cache is responsible for loading data, not the application:
+ * 1. Check cache (GET key)
+ * 2. If HIT → return cached data
+ * 3. If MISS → load from source, store in cache (SET key value EX ttl),
+ *    return data
+ *
+ * Compared to cache-aside, where the application performs the same steps
+ * itself, application code is decoupled from the data source and gets a
+ * consistent interface regardless of hit/miss.
+ *
+ * Concurrent misses for the same key all load from the source; see
+ * StampedeProtectionStrategy when that is expensive.
+ */
+export class ReadThroughStrategy<T> implements ReadStrategy<T> {
+  async getOrLoad(
+    cache: Cache<T>,
+    key: string,
+    options?: DataSourceOptions
+  ): Promise<CacheLookup<T>> {
+    const cached = await cache.getWithMetadata(key);
+    if (cached.value !== null) {
+      return cached;
+    }
+
+    const value = await cache.source.get(key, options);
+    if (value !== null) {
+      await cache.set(key, value);
+    }
+
+    return {
+      key,
+      value,
+      source: 'computed',
+      ttl: value !== null ? cache.ttlSeconds : undefined,
+    };
+  }
+}
@@ -0,0 +1,162 @@
+import type { Cache } from '../cache';
+import type { CacheLookup, DataSourceOptions, ReadStrategy } from '../types';
+import { ReadThroughStrategy } from './read-through.strategy';
+
+interface RefreshAheadStrategyOptions {
+  /** Refresh when the remaining TTL drops below this fraction of the cache TTL (default: 0.2) */
+  refreshThreshold?: number;
+  /** Lock timeout in seconds (default: 10) */
+  lockTtlSeconds?: number;
+}
+
+export interface RefreshStatus {
+  cached: boolean;
+  ttl?: number;
+  locked: boolean;
+  refreshNeeded?: boolean;
+}
+
+/**
+ * Refresh-Ahead Strategy
+ *
+ * Proactive cache refresh to eliminate cache miss penalties for hot data.
+ * When a cache hit occurs and TTL is below a threshold, triggers background
+ * refresh while returning current cached value immediately.
+ *
+ * Pattern flow:
+ * 1. Request arrives for key
+ * 2. Check cache (GET key)
+ * 3. Cache HIT - check TTL (TTL key)
+ * 4. If TTL < threshold (e.g., 20% of original TTL):
+ *    a. Return current cached value immediately (fast)
+ *    b. Try to acquire a lock (to prevent multiple refreshes)
+ *    c. If lock acquired, trigger background refresh asynchronously
+ * 5. Background: Load new data, update cache, release lock
+ * 6. Next request gets fresh data
+ *
+ * Use cases:
+ * - Expensive operations that must always be fast (ML inference, complex queries)
+ * - Hot data with frequent access (popular products, trending content)
+ * - Cannot tolerate cache miss penalty (real-time dashboards, APIs)
+ * - Stale data acceptable temporarily (eventual consistency)
+ */
+export class RefreshAheadStrategy<T> implements ReadStrategy<T> {
+  private readonly refreshThreshold: number;
+  private readonly lockTtlSeconds: number;
+  private readonly readThrough = new ReadThroughStrategy<T>();
+
+  constructor(options: RefreshAheadStrategyOptions = {}) {
+    this.refreshThreshold = options.refreshThreshold ?? 0.2;
+    this.lockTtlSeconds = options.lockTtlSeconds ?? 10;
+  }
+
+  async getOrLoad(
+    cache: Cache<T>,
+    key: string,
+    options?: DataSourceOptions
+  ): Promise<CacheLookup<T>> {
+    const cached = await cache.getWithMetadata(key);
+
+    if (cached.value === null) {
+      // Cache MISS - load synchronously
+      return this.readThrough.getOrLoad(cache, key, options);
+    }
+
+    // Cache HIT - if TTL is below threshold, trigger background refresh
+    const refreshTriggerTtl = cache.ttlSeconds * this.refreshThreshold;
+    if (cached.ttl !== undefined && cached.ttl < refreshTriggerTtl) {
+      // Non-blocking background refresh
+      this.triggerBackgroundRefresh(cache, key, options).catch(error => {
+        console.error(
+          `[Refresh-Ahead] Background refresh failed for key: ${key}`,
+          error
+        );
+      });
+    }
+
+    return cached;
+  }
+
+  /**
+   * Get refresh status for a key
+   *
+   * Useful for monitoring and debugging refresh-ahead behavior
+   *
+   * @returns Status information including cache state, TTL, and lock status
+   */
+  async getRefreshStatus(cache: Cache<T>, key: string): Promise<RefreshStatus> {
+    const cached = await cache.getWithMetadata(key);
+    const locked = (await cache.redis.get(this.lockKey(cache, key))) !== null;
+
+    if (cached.value === null) {
+      return { cached: false, locked };
+    }
+
+    const refreshNeeded =
+      cached.ttl !== undefined &&
+      cached.ttl < cache.ttlSeconds * this.refreshThreshold;
+
+    return { cached: true, ttl: cached.ttl, locked, refreshNeeded };
+  }
+
+  /**
+   * Trigger background refresh with distributed locking
+   *
+   * This method:
+   * 1. Attempts to acquire a distributed lock (SET NX EX)
+   * 2. If lock acquired, refreshes the cache
+   * 3. Releases the lock when done
+   * 4. If lock not acquired, another instance is already refreshing
+   *
+   * EDUCATIONAL NOTE - Lock implementation:
+   *
+   * We use SET key value NX EX seconds for atomic lock acquisition.
+   * This is safer than separate SETNX + EXPIRE commands.
+   *
+   * Lock release uses DEL, but in production you should use a Lua script
+   * to ensure you only delete your own lock (see StampedeProtectionStrategy).
+   * This prevents accidentally deleting a lock acquired by another process
+   * if your refresh takes longer than the lock TTL.
+   */
+  private async triggerBackgroundRefresh(
+    cache: Cache<T>,
+    key: string,
+    options?: DataSourceOptions
+  ): Promise<void> {
+    const lockKey = this.lockKey(cache, key);
+
+    // Try to acquire lock (SET NX EX)
+    const lockAcquired = await cache.redis.set(
+      lockKey,
+      `${Date.now()}`,
+      'EX',
+      this.lockTtlSeconds,
+      'NX'
+    );
+
+    if (!lockAcquired) {
+      // Another instance is already refreshing
+      return;
+    }
+
+    try {
+      // Load fresh data
+      const value = await cache.source.get(key, options);
+
+      if (value === null) {
+        // Deleted from the source since it was cached
+        await cache.invalidate(key);
+      } else {
+        // Update cache with new TTL
+        await cache.set(key, value);
+      }
+    } finally {
+      // Release lock
+      await cache.redis.del(lockKey);
+    }
+  }
+
+  private lockKey(cache: Cache<T>, key: string): string {
+    return `lock:${cache.redisKey(key)}`;
+  }
+}
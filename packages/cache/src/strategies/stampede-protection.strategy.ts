@@ -1,10 +1,26 @@
-import { Redis } from 'ioredis';
+import type { Redis } from 'ioredis';
 import crypto from 'crypto';
-import { StampedeResponse, StampedeMetadata } from '../interfaces';
-import { simulateExpensiveOperation } from '../../utils/expensive-operation';
+import type { Cache } from '../cache';
+import type { CacheLookup, DataSourceOptions, ReadStrategy } from '../types';
+
+interface StampedeProtectionStrategyOptions {
+  /** Maximum time in seconds one request can hold the lock (default: 30). Should be >= your longest expected load time */
+  lockTtlSeconds?: number;
+  /** How long losers wait for the winner in ms before loading themselves (default: 30000). Should match the lock TTL to handle crashed lock holders */
+  maxWaitMs?: number;
+}
+
+// Deletes the lock only if it still holds our value
+const RELEASE_LOCK_SCRIPT = `
+  if redis.call("GET", KEYS[1]) == ARGV[1] then
+    return redis.call("DEL", KEYS[1])
+  else
+    return 0
+  end
+`;
 
 /**
- * Cache Stampede Prevention Service
+ * Stampede Protection Strategy
  *
  * Prevents the "thundering herd" or "cache stampede" problem where multiple concurrent
  * requests attempt to recompute an expensive operation when a cache entry expires.
@@ -42,7 +58,7 @@ import { simulateExpensiveOperation } from '../../utils/expensive-operation';
  * - How it works: Serve stale data while refreshing in background
  * - Problem: Users may see stale data, requires cache to never truly expire
  * - Trade-off: Best user experience but complex implementation
- * - See: refresh-ahead.service.ts for this pattern
+ * - See: RefreshAheadStrategy for this pattern
  *
  * ### ✅ This Approach: Lock with Pub/Sub (Winner for High Concurrency)
  * - How it works:
@@ -60,41 +76,26 @@ import { simulateExpensiveOperation } from '../../utils/expensive-operation';
  * - Use case: High concurrency (>100 requests), expensive operations (>2s)
  *
  * ## Implementation Details:
- * - Lock TTL: 30s (auto-expires if holder crashes)
- * - Wait timeout: 30s (fallback to compute if notification never arrives)
+ * - Lock TTL: 30s by default (auto-expires if holder crashes)
+ * - Wait timeout: 30s by default (fallback to compute if notification never arrives)
  * - Unique lock values: Prevents accidental deletion of another process's lock
  * - Lua script for lock release: Atomic check-and-delete
  * - Separate Redis client per subscriber: Required by Redis pub/sub model
  * - Race condition handling: Double-check cache after subscribing
  */
-export class StampedePreventionService {
-  // ============================================================================
-  // CONFIGURATION CONSTANTS
-  // ============================================================================
-
-  // Key prefixes for Redis namespace isolation
-  private readonly KEY_PREFIX = 'stampede:'; // Cached data: stampede:mykey
-  private readonly LOCK_PREFIX = 'lock:stampede:'; // Distributed lock: lock:stampede:mykey
-  private readonly CHANNEL_PREFIX = 'cache-ready:'; // Pub/sub channel: cache-ready:mykey
+export class StampedeProtectionStrategy<T> implements ReadStrategy<T> {
+  private readonly lockTtlSeconds: number;
+  private readonly maxWaitMs: number;
 
-  // Timing configuration - tune these based on your use case
-  private readonly DEFAULT_TTL = 300; // 5 minutes: How long to cache successful computations
-  private readonly LOCK_TTL = 30; // 30 seconds: Maximum time one request can hold the lock
-  // Should be >= your longest expected computation time
-  private readonly MAX_WAIT_TIME = 30000; // 30 seconds: How long losers wait before giving up
-  // Should match LOCK_TTL to handle crashed lock holders
-  private readonly COMPUTATION_DELAY = 2000; // 2 seconds: Simulated expensive operation delay for demo
-
-  constructor(private readonly redis: Redis) {}
-
-  // ============================================================================
-  // PUBLIC API
-  // ============================================================================
+  constructor(options: StampedeProtectionStrategyOptions = {}) {
+    this.lockTtlSeconds = options.lockTtlSeconds ?? 30;
+    this.maxWaitMs = options.maxWaitMs ?? 30000;
+  }
 
   /**
    * Get data with stampede prevention.
    *
-   * This is the main entry point. It implements the "check-lock-compute-or-wait" pattern:
+   * It implements the "check-lock-compute-or-wait" pattern:
    *
    * Flow for FIRST request (winner):
    *   1. Check cache → miss
@@ -118,161 +119,107 @@ export class StampedePreventionService {
    * - Pub/sub message lost: Timeout triggers fallback computation
    * - Race condition: Double-check cache after subscribing
    * - Cache disappeared after notification: Fallback computation
-   *
-   * @param key - The cache key to get/compute
-   * @returns Promise containing data and metadata about the operation
    */
-  async get(key: string): Promise<StampedeResponse<any>> {
-    const startTime = Date.now();
-    const cacheKey = `${this.KEY_PREFIX}${key}`; // e.g., "stampede:report1"
-    const lockKey = `${this.LOCK_PREFIX}${key}`; // e.g., "lock:stampede:report1"
-    const channelKey = `${this.CHANNEL_PREFIX}${key}`; // e.g., "cache-ready:report1"
+  async getOrLoad(
+    cache: Cache<T>,
+    key: string,
+    options?: DataSourceOptions
+  ): Promise<CacheLookup<T>> {
+    const lockKey = `lock:${cache.redisKey(key)}`; // e.g., "lock:stampede:report1"
+    const channelKey = `cache-ready:${cache.redisKey(key)}`; // e.g., "cache-ready:stampede:report1"
 
     // ========================================================================
     // STEP 1: Check if data is already cached (fast path)
     // ========================================================================
     // This is the happy path - most requests should hit this
-    const cached = await this.redis.get(cacheKey);
-    if (cached) {
-      const ttl = await this.redis.ttl(cacheKey);
-      console.log(`[Stampede] Cache hit for key: ${key}`);
-
-      return {
-        data: JSON.parse(cached),
-        metadata: {
-          key,
-          source: 'cache',
-          timeTaken: Date.now() - startTime,
-          ttl,
-        },
-      };
+    const cached = await cache.getWithMetadata(key);
+    if (cached.value !== null) {
+      return cached;
     }
 
-    console.log(`[Stampede] Cache miss for key: ${key}`);
-
     // ========================================================================
     // STEP 2: Cache miss - try to acquire the lock to become the "winner"
     // ========================================================================
     // Only ONE request will successfully acquire the lock
     // Using SET NX EX ensures atomicity (no race condition between check and set)
     const lockValue = this.generateLockValue();
-    const lockAcquired = await this.tryAcquireLock(lockKey, lockValue);
+    const lockAcquired = await this.tryAcquireLock(cache, lockKey, lockValue);
 
     if (lockAcquired) {
       // ======================================================================
       // PATH A: We won the lock - we are responsible for computing the data
       // ======================================================================
-      console.log(`[Stampede] Lock acquired for key: ${key}`);
-
       try {
-        const data = await this.computeAndCache(key, cacheKey, channelKey);
-
+        const value = await this.computeAndCache(
+          cache,
+          key,
+          channelKey,
+          options
+        );
         return {
-          data,
-          metadata: {
-            key,
-            source: 'computed',
-            timeTaken: Date.now() - startTime,
-            ttl: this.DEFAULT_TTL,
-            lockAcquired: true,
-            waitedForLock: false,
-          },
+          ...this.computed(cache, key, value),
+          lockAcquired: true,
+          waitedForLock: false,
         };
       } finally {
         // CRITICAL: Always release lock, even if computation fails
         // This prevents deadlock if our process crashes mid-computation
-        // (Though lock will auto-expire anyway after LOCK_TTL seconds)
-        await this.releaseLock(lockKey, lockValue);
+        // (Though lock will auto-expire anyway after the lock TTL)
+        await this.releaseLock(cache, lockKey, lockValue);
       }
-    } else {
-      // ======================================================================
-      // PATH B: Lock already held - we're a "loser", wait for the winner
-      // ======================================================================
-      console.log(
-        `[Stampede] Lock acquisition failed, waiting for key: ${key}`
-      );
-      const waitStart = Date.now();
-
-      try {
-        // Wait for winner to publish "ready" notification
-        await this.waitForCacheReady(channelKey, cacheKey);
-        const waitTimeMs = Date.now() - waitStart;
+    }
 
-        // Read from cache after receiving notification
-        const cached = await this.redis.get(cacheKey);
-        if (!cached) {
-          // Edge case: Got notification but cache is empty (should be rare)
-          // Possible causes: cache evicted, winner crashed after publish, etc.
-          console.warn(
-            `[Stampede] Received notification but cache empty for key: ${key}, computing anyway`
-          );
-          const data = await this.computeAndCache(key, cacheKey, channelKey);
-          return {
-            data,
-            metadata: {
-              key,
-              source: 'computed',
-              timeTaken: Date.now() - startTime,
-              ttl: this.DEFAULT_TTL,
-              lockAcquired: false,
-              waitedForLock: true,
-              waitTimeMs,
-            },
-          };
-        }
+    // ========================================================================
+    // PATH B: Lock already held - we're a "loser", wait for the winner
+    // ========================================================================
+    const waitStart = Date.now();
 
-        const ttl = await this.redis.ttl(cacheKey);
-        return {
-          data: JSON.parse(cached),
-          metadata: {
-            key,
-            source: 'cache',
-            timeTaken: Date.now() - startTime,
-            ttl,
-            lockAcquired: false,
-            waitedForLock: true,
-            waitTimeMs,
-          },
-        };
-      } catch (error) {
-        // Fallback: If waiting fails (timeout, network error, etc.), compute anyway
-        // This is graceful degradation - better to duplicate work than fail the request
-        console.error(`[Stampede] Error waiting for key: ${key}`, error);
-        const data = await this.computeAndCache(key, cacheKey, channelKey);
+    try {
+      // Wait for winner to publish "ready" notification
+      await this.waitForCacheReady(cache, key, channelKey);
+      const waitTimeMs = Date.now() - waitStart;
+
+      // Read from cache after receiving notification
+      const ready = await cache.getWithMetadata(key);
+      if (ready.value === null) {
+        // Edge case: Got notification but cache is empty (should be rare)
+        // Possible causes: cache evicted, winner crashed after publish,
+        // key missing from the source, etc.
+        console.warn(
+          `[Stampede] Received notification but cache empty for key: ${key}, computing anyway`
+        );
+        const value = await this.computeAndCache(
+          cache,
+          key,
+          channelKey,
+          options
+        );
         return {
-          data,
-          metadata: {
-            key,
-            source: 'computed',
-            timeTaken: Date.now() - startTime,
-            ttl: this.DEFAULT_TTL,
-            lockAcquired: false,
-            waitedForLock: true,
-            waitTimeMs: Date.now() - waitStart,
-          },
+          ...this.computed(cache, key, value),
+          lockAcquired: false,
+          waitedForLock: true,
+          waitTimeMs,
         };
       }
-    }
-  }
 
-  /**
-   * Invalidate (delete) a cache entry.
-   *
-   * Useful for:
-   * - Testing stampede scenarios repeatedly
-   * - Manual cache invalidation when data changes
-   * - Forcing recomputation of stale data
-   *
-   * Note: This only deletes the cached data, not any active locks.
-   * Active locks will expire naturally after LOCK_TTL seconds.
-   */
-  async invalidate(key: string): Promise<boolean> {
-    const cacheKey = `${this.KEY_PREFIX}${key}`;
-    const deleted = await this.redis.del(cacheKey);
-    console.log(
-      `[Stampede] Invalidated cache for key: ${key}, deleted: ${deleted > 0}`
-    );
-    return deleted > 0;
+      return {
+        ...ready,
+        lockAcquired: false,
+        waitedForLock: true,
+        waitTimeMs,
+      };
+    } catch (error) {
+      // Fallback: If waiting fails (timeout, network error, etc.), compute anyway
+      // This is graceful degradation - better to duplicate work than fail the request
+      console.error(`[Stampede] Error waiting for key: ${key}`, error);
+      const value = await this.computeAndCache(cache, key, channelKey, options);
+      return {
+        ...this.computed(cache, key, value),
+        lockAcquired: false,
+        waitedForLock: true,
+        waitTimeMs: Date.now() - waitStart,
+      };
+    }
   }
 
   // ============================================================================
@@ -292,19 +239,18 @@ export class StampedePreventionService {
    * - Scenario: A gets lock, A times out, lock expires, B gets lock, A wakes up and tries to release
    * - With unique value, A's release will fail because value doesn't match B's
    *
-   * @param lockKey - The Redis key for the lock (e.g., "lock:stampede:report1")
-   * @param lockValue - Unique identifier (UUID:timestamp) to prove ownership
    * @returns true if lock acquired, false if already held by another process
    */
   private async tryAcquireLock(
+    cache: Cache<T>,
     lockKey: string,
     lockValue: string
   ): Promise<boolean> {
-    const result = await this.redis.set(
+    const result = await cache.redis.set(
       lockKey,
       lockValue,
       'EX',
-      this.LOCK_TTL,
+      this.lockTtlSeconds,
       'NX'
     );
     return result === 'OK';
@@ -322,17 +268,12 @@ export class StampedePreventionService {
    *
    * This is the standard pattern for distributed locks (see Redis docs on locks).
    */
-  private async releaseLock(lockKey: string, lockValue: string): Promise<void> {
-    const luaScript = `
-      if redis.call("GET", KEYS[1]) == ARGV[1] then
-        return redis.call("DEL", KEYS[1])
-      else
-        return 0
-      end
-    `;
-
-    await this.redis.eval(luaScript, 1, lockKey, lockValue);
-    console.log(`[Stampede] Released lock: ${lockKey}`);
+  private async releaseLock(
+    cache: Cache<T>,
+    lockKey: string,
+    lockValue: string
+  ): Promise<void> {
+    await cache.redis.eval(RELEASE_LOCK_SCRIPT, 1, lockKey, lockValue);
   }
 
   // ============================================================================
@@ -363,29 +304,21 @@ export class StampedePreventionService {
    * - Redis limitation: A client in SUBSCRIBE mode cannot execute other commands (GET, SET, etc.)
    * - We need to SUBSCRIBE and also GET cache, so we need two clients
    * - We duplicate() our main client to create an independent connection
-   *
-   * @param channelKey - The pub/sub channel to subscribe to (e.g., "cache-ready:report1")
-   * @param cacheKey - The cache key to double-check (e.g., "stampede:report1")
    */
   private async waitForCacheReady(
-    channelKey: string,
-    cacheKey: string
+    cache: Cache<T>,
+    key: string,
+    channelKey: string
   ): Promise<void> {
-    console.log(`[Stampede] Waiting for notification: ${channelKey}`);
-
     // Create separate Redis client for pub/sub (required by Redis)
-    const subscriber = this.redis.duplicate();
+    const subscriber = cache.redis.duplicate();
 
     try {
       // Step 1: Subscribe first (before checking cache to avoid race condition)
       await subscriber.subscribe(channelKey);
 
       // Step 2: Double-check cache (race condition: publish may have happened already)
-      const cached = await this.redis.get(cacheKey);
-      if (cached) {
-        console.log(
-          `[Stampede] Cache appeared during subscribe, no need to wait: ${cacheKey}`
-        );
+      if ((await cache.get(key)) !== null) {
         return;
       }
 
@@ -398,8 +331,6 @@ export class StampedePreventionService {
         );
         throw new Error('Timeout waiting for cache ready notification');
       }
-
-      console.log(`[Stampede] Received notification for: ${channelKey}`);
     } finally {
       // CRITICAL: Always cleanup to prevent memory leaks
       // Unsubscribe before disconnecting to be polite to Redis
@@ -413,14 +344,8 @@ export class StampedePreventionService {
    *
    * Why timeout?
    * - Prevents infinite waiting if lock holder crashes before publishing
-   * - Lock has TTL (30s), so if holder crashes, lock expires and another process can compute
+   * - Lock has TTL, so if holder crashes, lock expires and another process can compute
    * - We timeout after same duration to trigger fallback computation
-   *
-   * Implementation using Promise:
-   * - Sets up message listener
-   * - Sets up timeout that resolves with null
-   * - Whichever happens first wins
-   * - Cleanup: Remove listener to prevent memory leak
    */
   private waitForMessage(
     subscriber: Redis,
@@ -430,7 +355,7 @@ export class StampedePreventionService {
       const timeout = setTimeout(() => {
         subscriber.removeAllListeners('message');
         resolve(null);
-      }, this.MAX_WAIT_TIME);
+      }, this.maxWaitMs);
 
       subscriber.on('message', (channel, message) => {
         if (channel === channelKey) {
@@ -447,7 +372,7 @@ export class StampedePreventionService {
   // ============================================================================
 
   /**
-   * Compute expensive operation and cache the result.
+   * Load the value from the source and cache it.
    * Then publish notification to wake all waiting requests.
    *
    * This is called by:
@@ -455,43 +380,44 @@ export class StampedePreventionService {
    * 2. Any request as fallback if waiting times out
    *
    * Publishing to pub/sub:
-   * - Returns number of subscribers who received the message
+   * - PUBLISH returns the number of subscribers who received the message
    * - In stampede scenario, this is typically 99 for 100 concurrent requests (all losers)
    * - If 0, that's fine - means no one was waiting (perhaps all timed out already)
-   *
-   * @param key - The original key requested by the user
-   * @param cacheKey - The full Redis key with prefix (e.g., "stampede:report1")
-   * @param channelKey - The pub/sub channel to publish to (e.g., "cache-ready:report1")
    */
   private async computeAndCache(
+    cache: Cache<T>,
     key: string,
-    cacheKey: string,
-    channelKey: string
-  ): Promise<any> {
-    console.log(`[Stampede] Computing expensive operation for key: ${key}`);
-
-    // Simulate expensive operation (e.g., database query, API call, ML inference)
-    // In real code, replace this with your actual expensive operation
-    const data = await simulateExpensiveOperation(key, this.COMPUTATION_DELAY);
+    channelKey: string,
+    options?: DataSourceOptions
+  ): Promise<T | null> {
+    // Expensive operation (e.g., database query, API call, ML inference)
+    const value = await cache.source.get(key, options);
 
     // Store in cache with TTL
     // TTL ensures stale data eventually expires (but see refresh-ahead pattern for proactive refresh)
-    await this.redis.set(
-      cacheKey,
-      JSON.stringify(data),
-      'EX',
-      this.DEFAULT_TTL
-    );
-    console.log(`[Stampede] Cached result for key: ${key}`);
+    // Keys missing from the source are not cached; waiters fall back to computing
+    if (value !== null) {
+      await cache.set(key, value);
+    }
 
     // Publish notification to wake all waiting requests
     // Redis pub/sub doesn't guarantee delivery, but that's OK - waiters have timeout fallback
-    const subscribers = await this.redis.publish(channelKey, 'ready');
-    console.log(
-      `[Stampede] Published notification for key: ${key}, reached ${subscribers} subscribers`
-    );
+    await cache.redis.publish(channelKey, 'ready');
+
+    return value;
+  }
 
-    return data;
+  private computed(
+    cache: Cache<T>,
+    key: string,
+    value: T | null
+  ): CacheLookup<T> {
+    return {
+      key,
+      value,
+      source: 'computed',
+      ttl: value !== null ? cache.ttlSeconds : undefined,
+    };
   }
 
   /**
@@ -0,0 +1,414 @@
+import type { Redis } from 'ioredis';
+import crypto from 'crypto';
+import type { Cache } from '../cache';
+import type { WriteResult, WriteStrategy } from '../types';
+
+interface WriteBehindStrategyOptions {
+  redis: Redis;
+  /** Prefix of the streams holding queued writes, one per cache: `<prefix><cache name>` (default: `write-behind:`) */
+  queuePrefix?: string;
+  /** Consumer group of the background consumers (default: `write-behind:workers`) */
+  groupName?: string;
+  /** Number of concurrent consumers processing each cache's queue (default: 2) */
+  consumers?: number;
+}
+
+export interface WriteBehindQueueStats {
+  totalPendingMessages: number;
+  totalStreamLength: number;
+  activeConsumers: number;
+  oldestPendingMs?: number;
+}
+
+/**
+ * A queued write, as stored in the stream
+ */
+interface QueuedWrite {
+  key: string;
+  /** Value encoded with the cache's serializer, as base64 */
+  payload: string;
+}
+
+// XREADGROUP reply: [[stream, [[id, [field1, value1, ...]], ...]], ...]
+type StreamReadReply = Array<[string, Array<[string, string[]]>]>;
+
+// XPENDING summary reply: [count, min-id, max-id, [[consumer, count], ...]]
+type PendingSummaryReply = [number, string | null, string | null, unknown];
+
+// XPENDING extended reply: [[id, consumer, idle (ms), deliveries], ...]
+type PendingMessagesReply = Array<[string, string, number, number]>;
+
+/**
+ * Write-Behind (Write-Back) Strategy
+ *
+ * Writes go to cache immediately and return fast. The write to the source
+ * happens asynchronously in the background via a reliable queue.
+ *
+ * Flow:
+ * 1. Write to cache immediately (SET key value)
+ * 2. Add write to the cache's reliable queue (XADD write-queue * key value)
+ * 3. Return success to application (fast!)
+ * 4. Background worker processes queue (XREADGROUP)
+ * 5. Worker writes to the cache's source asynchronously
+ * 6. Acknowledge message (XACK)
+ *
+ * Each cache writing through the strategy has its own queue, so caches
+ * never persist each other's writes.
+ *
+ * Trade-offs:
+ * ✅ Fastest write performance
+ * ✅ Reduced load on source database
+ * ✅ Can batch writes for efficiency
+ * ❌ Risk of data loss if cache crashes before write completes
+ * ❌ Temporary inconsistency between cache and source
+ * ❌ Complex error handling and monitoring needed
+ */
+export class WriteBehindStrategy<T> implements WriteStrategy<T> {
+  private redis: Redis;
+  private readonly queuePrefix: string;
+  private readonly groupName: string;
+  private readonly consumerCount: number;
+  private consumers = new Map<string, WriteBehindConsumer<T>[]>();
+
+  /**
+   * Queued writes are only persisted once `start` has been called for their
+   * cache.
+   */
+  constructor(options: WriteBehindStrategyOptions) {
+    this.redis = options.redis;
+    this.queuePrefix = options.queuePrefix ?? 'write-behind:';
+    this.groupName = options.groupName ?? 'write-behind:workers';
+    this.consumerCount = options.consumers ?? 2;
+  }
+
+  /**
+   * Stream holding the writes queued for `cache`
+   */
+  queueName(cache: Cache<T>): string {
+    return `${this.queuePrefix}${cache.name}`;
+  }
+
+  /**
+   * Create the consumer group if needed and start the background consumers
+   * persisting `cache`'s writes to its source, including writes queued by
+   * other processes
+   *
+   * @throws If the consumer group cannot be created
+   */
+  async start(cache: Cache<T>): Promise<void> {
+    if (this.consumers.has(cache.name)) {
+      return;
+    }
+    // Throws MissingDataSourceError right away if the writes could never be
+    // persisted
+    void cache.source;
+    const queueName = this.queueName(cache);
+
+    try {
+      await this.redis.xgroup(
+        'CREATE',
+        queueName,
+        this.groupName,
+        '0',
+        'MKSTREAM'
+      );
+    } catch (error) {
+      // Group already exists, which is fine
+      if (!(error instanceof Error) || !error.message.includes('BUSYGROUP')) {
+        throw error;
+      }
+    }
+
+    // Create and start multiple consumers with staggered start times
+    // This ensures consumers poll at different times for better load distribution
+    const consumers: WriteBehindConsumer<T>[] = [];
+    for (let i = 1; i <= this.consumerCount; i++) {
+      const consumer = new WriteBehindConsumer<T>({
+        redis: this.redis,
+        cache,
+        queueName,
+        groupName: this.groupName,
+        consumerId: crypto.randomUUID(),
+      });
+
+      // Stagger consumer start times by 2.5 seconds (half the polling interval)
+      // This way with 2 consumers, they alternate polling every 2.5 seconds
+      consumer.start((i - 1) * 2500);
+
+      consumers.push(consumer);
+    }
+    this.consumers.set(cache.name, consumers);
+  }
+
+  /**
+   * Write data to cache immediately and queue for background persistence
+   */
+  async write(cache: Cache<T>, key: string, value: T): Promise<WriteResult> {
+    try {
+      // Step 1: Write to cache immediately with TTL (fast!)
+      await cache.set(key, value);
+
+      // Step 2: Add write operation to queue for background processing
+      // XADD stream * field1 value1 field2 value2 ...
+      // The value is encoded with the cache's codec, as base64 so that
+      // consumers can read the stream as text
+      await this.redis.xadd(
+        this.queueName(cache),
+        '*', // Auto-generated ID
+        'key',
+        key,
+        'payload',
+        cache.serializer.serialize(value).toString('base64'),
+        'timestamp',
+        Date.now().toString()
+      );
+
+      // Note: We return immediately without waiting for database write
+      // This makes writes very fast but introduces eventual consistency
+      return {
+        key,
+        writtenToCache: true,
+        writtenToSource: false, // Source write is queued, not yet completed
+      };
+    } catch (error) {
+      console.error('[Write-Behind] Write failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get statistics of `cache`'s queue for monitoring
+   */
+  async getQueueStats(cache: Cache<T>): Promise<WriteBehindQueueStats> {
+    const queueName = this.queueName(cache);
+
+    try {
+      const [pendingCount, oldestId] = (await this.redis.xpending(
+        queueName,
+        this.groupName
+      )) as PendingSummaryReply;
+
+      const stream = toRecord(
+        (await this.redis.xinfo('STREAM', queueName)) as unknown[]
+      );
+
+      // Count the consumers of this strategy's group
+      const groups = (await this.redis.xinfo('GROUPS', queueName)) as Array<
+        unknown[]
+      >;
+      const group = groups
+        .map(toRecord)
+        .find(info => info.name === this.groupName);
+
+      // Stream IDs start with the time they were added at: <ms>-<sequence>
+      const oldestPendingMs =
+        pendingCount > 0 && oldestId
+          ? Date.now() - parseInt(oldestId.split('-')[0], 10)
+          : 0;
+
+      return {
+        totalPendingMessages: pendingCount,
+        totalStreamLength: Number(stream.length ?? 0),
+        activeConsumers: Number(group?.consumers ?? 0),
+        oldestPendingMs,
+      };
+    } catch (error) {
+      console.error('[Write-Behind] Failed to get queue stats:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop the consumers, handing their pending messages back to the group
+   */
+  async close(): Promise<void> {
+    const consumers = [...this.consumers.values()].flat();
+    this.consumers.clear();
+    await Promise.all(consumers.map(consumer => consumer.stop()));
+  }
+}
+
+/**
+ * Write-Behind Consumer
+ *
+ * Independent worker that processes messages from a cache's write-behind
+ * queue. Each consumer runs its own polling loop and has a unique identity in
+ * the Redis consumer group for proper message distribution and tracking.
+ */
+class WriteBehindConsumer<T> {
+  private redis: Redis;
+  private cache: Cache<T>;
+  private queueName: string;
+  private groupName: string;
+  private consumerName: string;
+  private startTimer: ReturnType<typeof setTimeout> | null = null;
+  private workerInterval: ReturnType<typeof setInterval> | null = null;
+  private isProcessing = false;
+
+  constructor(options: {
+    redis: Redis;
+    cache: Cache<T>;
+    queueName: string;
+    groupName: string;
+    consumerId: string;
+  }) {
+    this.redis = options.redis;
+    this.cache = options.cache;
+    this.queueName = options.queueName;
+    this.groupName = options.groupName;
+    this.consumerName = `worker-${options.consumerId}`;
+  }
+
+  /**
+   * Start the consumer's polling loop after `delayMs`
+   */
+  start(delayMs = 0): void {
+    this.startTimer = setTimeout(() => {
+      this.startTimer = null;
+      this.workerInterval = setInterval(() => {
+        this.processQueue();
+      }, 5000);
+    }, delayMs);
+  }
+
+  /**
+   * Stop the consumer and gracefully handle pending messages
+   */
+  async stop(): Promise<void> {
+    // Step 1: Stop accepting new work, including a start still pending
+    if (this.startTimer) {
+      clearTimeout(this.startTimer);
+      this.startTimer = null;
+    }
+    if (this.workerInterval) {
+      clearInterval(this.workerInterval);
+      this.workerInterval = null;
+    }
+
+    // Step 2: Wait for current processing to complete
+    while (this.isProcessing) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    try {
+      // Step 3: Get pending messages for this consumer
+      const pending = (await this.redis.xpending(
+        this.queueName,
+        this.groupName,
+        '-',
+        '+',
+        10, // Check up to 10 pending messages
+        this.consumerName
+      )) as PendingMessagesReply;
+
+      // Step 4: Claim pending messages to make them available for other consumers
+      if (pending.length > 0) {
+        const messageIds = pending.map(([id]) => id);
+
+        // XCLAIM with idle time of 0 to immediately make them available
+        // Note: We claim to a different consumer or let Redis reassign
+        await this.redis.xclaim(
+          this.queueName,
+          this.groupName,
+          this.consumerName,
+          0, // minimum idle time
+          ...messageIds
+        );
+      }
+
+      // Step 5: Delete consumer from group to update active consumer count
+      await this.redis.xgroup(
+        'DELCONSUMER',
+        this.queueName,
+        this.groupName,
+        this.consumerName
+      );
+    } catch (error) {
+      console.error(
+        `[Write-Behind] Error during consumer ${this.consumerName} shutdown:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Process pending writes from the queue
+   */
+  private async processQueue(): Promise<void> {
+    if (this.isProcessing) {
+      return; // Prevent concurrent processing
+    }
+
+    this.isProcessing = true;
+
+    try {
+      // Read messages from the queue using ioredis syntax
+      // XREADGROUP GROUP group consumer [COUNT count] [BLOCK milliseconds] STREAMS key [key ...] ID [ID ...]
+      const messages = (await this.redis.xreadgroup(
+        'GROUP',
+        this.groupName,
+        this.consumerName,
+        'COUNT',
+        2, // process up to 2 messages at a time
+        'BLOCK',
+        100, // wait up to 100ms if no messages are available
+        'STREAMS',
+        this.queueName,
+        '>' // read only new messages that have never been delivered to this group
+      )) as StreamReadReply | null;
+
+      if (!messages) {
+        return;
+      }
+
+      for (const [, streamMessages] of messages) {
+        for (const [messageId, fields] of streamMessages) {
+          try {
+            await this.processMessage(
+              toRecord(fields) as unknown as QueuedWrite
+            );
+
+            // Acknowledge successful processing
+            await this.redis.xack(this.queueName, this.groupName, messageId);
+          } catch (error) {
+            console.error(
+              `[Write-Behind] Consumer ${this.consumerName} failed to process message ${messageId}:`,
+              error
+            );
+            // In production, you might want to:
+            // - Retry with exponential backoff
+            // - Move to dead letter queue after max retries
+            // - Alert monitoring systems
+          }
+        }
+      }
+    } catch (error) {
+      console.error(
+        `[Write-Behind] Consumer ${this.consumerName} error processing queue:`,
+        error
+      );
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Process a single message from the queue by writing it to the source
+   */
+  private async processMessage(message: QueuedWrite): Promise<void> {
+    const value = this.cache.serializer.deserialize(
+      Buffer.from(message.payload, 'base64')
+    ) as T;
+
+    await this.cache.source.put(message.key, value);
+  }
+}
+
+// Turns a flat [field1, value1, field2, value2, ...] reply into an object
+function toRecord(fields: unknown[]): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+  for (let i = 0; i < fields.length; i += 2) {
+    record[String(fields[i])] = fields[i + 1];
+  }
+  return record;
+}
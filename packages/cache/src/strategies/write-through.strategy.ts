@@ -0,0 +1,43 @@
+import type { Cache } from '../cache';
+import type { DataSourceOptions, WriteResult, WriteStrategy } from '../types';
+
+/**
+ * Write-Through Strategy
+ *
+ * Every write goes through the cache to the source. Both cache and source
+ * are updated synchronously before the write is considered complete.
+ *
+ * Flow:
+ * 1. Write to source (database UPDATE) - synchronous, ensures durability
+ * 2. Write to cache (SET key value) - for fast subsequent reads
+ * 3. Return success to application
+ *
+ * Pros:
+ * - Cache and source always consistent
+ * - No cache misses on recent writes
+ * - Simple consistency model
+ * - Immediate durability
+ *
+ * Cons:
+ * - Slower writes (both systems)
+ * - Write penalty even if data never read
+ * - Source is the bottleneck
+ */
+export class WriteThroughStrategy<T> implements WriteStrategy<T> {
+  async write(
+    cache: Cache<T>,
+    key: string,
+    value: T,
+    options?: DataSourceOptions
+  ): Promise<WriteResult> {
+    // Step 1: Write to source FIRST - the source of truth must be updated
+    // before the cache. If this fails, nothing was written (consistent state)
+    await cache.source.put(key, value, options);
+
+    // Step 2: Write to cache. If this fails, data is still safely persisted
+    // in the source, and future reads are cache misses that reload it
+    await cache.set(key, value);
+
+    return { key, writtenToCache: true, writtenToSource: true };
+  }
+}
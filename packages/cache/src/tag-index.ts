@@ -0,0 +1,172 @@
+import type { Redis } from 'ioredis';
+import { DEFAULT_INVALIDATION_CHANNEL } from './local-cache';
+
+interface TagIndexOptions {
+  redis: Redis;
+  /** Prefixed to every tag set (default: `cache-tag:`) */
+  prefix?: string;
+  /** Channel deleted keys are published on, for local caches (default: `cache:invalidations`) */
+  invalidationChannel?: string;
+}
+
+// Stores a value and adds its key to the tag sets in one step, so an
+// invalidation can never run between the two. Members are scored by the
+// expiry of their key: members whose key has expired are pruned on every
+// write, and each tag set expires along with its longest-lived key.
+//
+// KEYS[1]: value key, KEYS[2..n]: tag sets
+// ARGV[1]: encoded value, ARGV[2]: TTL in seconds
+const SET_TAGGED_SCRIPT = `
+  redis.call("SET", KEYS[1], ARGV[1], "EX", ARGV[2])
+
+  local time = redis.call("TIME")
+  local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+  local expiresAt = now + tonumber(ARGV[2]) * 1000
+
+  for i = 2, #KEYS do
+    redis.call("ZADD", KEYS[i], expiresAt, KEYS[1])
+    redis.call("ZREMRANGEBYSCORE", KEYS[i], "-inf", now)
+    local last = redis.call("ZRANGE", KEYS[i], -1, -1, "WITHSCORES")
+    redis.call("PEXPIREAT", KEYS[i], last[2])
+  end
+  return 1
+`;
+
+// Members whose key has not expired yet. Scores are expiries by the server
+// clock, so they are compared with the server's TIME, not the client's.
+//
+// KEYS[1]: tag set
+const LIVE_KEYS_SCRIPT = `
+  local time = redis.call("TIME")
+  local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+  return redis.call("ZRANGEBYSCORE", KEYS[1], "(" .. now, "+inf")
+`;
+
+// Deletes every key in the tag sets, and the sets themselves, atomically,
+// and publishes each key so local caches drop their copies. Returns the
+// number of keys that still existed.
+//
+// KEYS[1..n]: tag sets
+// ARGV[1]: invalidation channel, ARGV[2]: client key prefix, which members
+// carry but published keys do not
+const INVALIDATE_TAGS_SCRIPT = `
+  local deleted = 0
+  for _, tagKey in ipairs(KEYS) do
+    for _, key in ipairs(redis.call("ZRANGE", tagKey, 0, -1)) do
+      deleted = deleted + redis.call("DEL", key)
+      redis.call("PUBLISH", ARGV[1], string.sub(key, #ARGV[2] + 1))
+    end
+    redis.call("DEL", tagKey)
+  end
+  return deleted
+`;
+
+/**
+ * Tag Index
+ *
+ * Tags group cached keys by what they depend on, e.g. every cached view
+ * mentioning a product carries `product:42`. When the product changes, one
+ * call drops all of them, whatever key or cache they live under:
+ *
+ * ```typescript
+ * const tags = new TagIndex({ redis });
+ * const views = new Cache<View>({
+ *   redis,
+ *   name: 'view',
+ *   source: viewTable,
+ *   tagging: {
+ *     index: tags,
+ *     tags: (_key, view) => view.productIds.map(id => `product:${id}`),
+ *   },
+ * });
+ *
+ * await tags.invalidate(['product:42']);
+ * ```
+ *
+ * Each tag is a sorted set (`cache-tag:<tag>`) of the Valkey keys carrying
+ * it, scored by when they expire. Sets are cleaned up as their keys expire:
+ * expired members are pruned whenever the set is written, and the set itself
+ * expires with its last key.
+ *
+ * A key that is stored again without a tag stays in that tag's set until its
+ * previous expiry. Invalidating the tag in the meantime drops the key
+ * needlessly, but never leaves a stale value behind.
+ *
+ * The scripts touch keys they are not passed (the members of the sets), so
+ * they suit a single Valkey node, not a cluster.
+ *
+ * Invalidated keys are published on the invalidation channel, so that local
+ * caches (see LocalCache) drop their copies too.
+ *
+ * Redis Commands: SET with EX, ZADD, ZREMRANGEBYSCORE, ZRANGE, PEXPIREAT, DEL,
+ * PUBLISH
+ */
+export class TagIndex {
+  readonly redis: Redis;
+  private readonly prefix: string;
+  private readonly invalidationChannel: string;
+
+  constructor(options: TagIndexOptions) {
+    this.redis = options.redis;
+    this.prefix = options.prefix ?? 'cache-tag:';
+    this.invalidationChannel =
+      options.invalidationChannel ?? DEFAULT_INVALIDATION_CHANNEL;
+  }
+
+  /**
+   * Valkey key of a tag's set, e.g. `cache-tag:product:42`
+   */
+  tagKey(tag: string): string {
+    return `${this.prefix}${tag}`;
+  }
+
+  /**
+   * Store an encoded value and add its key to the sets of `tags`
+   */
+  async setTagged(
+    redisKey: string,
+    data: Buffer,
+    ttlSeconds: number,
+    tags: string[]
+  ): Promise<void> {
+    const tagKeys = [...new Set(tags)].map(tag => this.tagKey(tag));
+    await this.redis.eval(
+      SET_TAGGED_SCRIPT,
+      1 + tagKeys.length,
+      redisKey,
+      ...tagKeys,
+      data,
+      ttlSeconds
+    );
+  }
+
+  /**
+   * Keys currently carrying a tag
+   */
+  async keys(tag: string): Promise<string[]> {
+    return (await this.redis.eval(
+      LIVE_KEYS_SCRIPT,
+      1,
+      this.tagKey(tag)
+    )) as string[];
+  }
+
+  /**
+   * Delete every key carrying any of `tags`, atomically
+   *
+   * @returns Number of keys deleted
+   */
+  async invalidate(tags: string[]): Promise<number> {
+    if (tags.length === 0) {
+      return 0;
+    }
+    const tagKeys = [...new Set(tags)].map(tag => this.tagKey(tag));
+    return (await this.redis.eval(
+      INVALIDATE_TAGS_SCRIPT,
+      tagKeys.length,
+      ...tagKeys,
+      this.invalidationChannel,
+      this.redis.options.keyPrefix ?? ''
+    )) as number;
+  }
+}
@@ -0,0 +1,130 @@
+import type { Cache } from './cache';
+
+export interface DataSourceOptions {
+  /**
+   * Simulated latency in ms, for sources emulating a slow backend (demo
+   * purposes). Sources backed by a real store ignore it.
+   */
+  delayMs?: number;
+}
+
+/**
+ * The system of record behind a cache (database, API, etc.)
+ *
+ * Caches load from and write to a DataSource instead of a hard-coded
+ * backend, so the same pattern can run against an in-memory store or a real
+ * database.
+ */
+export interface DataSource<T> {
+  /**
+   * @returns The value stored for `key`, or null if there is none
+   */
+  get(key: string, options?: DataSourceOptions): Promise<T | null>;
+
+  /**
+   * Load several keys at once, e.g. for cache warming
+   *
+   * @returns Values in the order of `keys`, null for missing keys
+   */
+  getMany(keys: string[], options?: DataSourceOptions): Promise<(T | null)[]>;
+
+  /**
+   * Insert or replace the value stored for `key`
+   */
+  put(key: string, value: T, options?: DataSourceOptions): Promise<void>;
+
+  /**
+   * @returns True if the key existed
+   */
+  delete(key: string, options?: DataSourceOptions): Promise<boolean>;
+
+  /**
+   * Release connections and file handles
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Result of a cache read, with where the value came from
+ */
+export interface CacheLookup<T> {
+  key: string;
+  /** Null on a miss, or when the source has no value for the key */
+  value: T | null;
+  source: 'cache' | 'computed';
+  level?: 'l1' | 'l2'; // Cache hits: local cache (L1) or Valkey (L2)
+  ttl?: number; // seconds remaining
+  lockAcquired?: boolean; // Stampede protection: this call loaded the value
+  waitedForLock?: boolean; // Stampede protection: this call waited for another
+  waitTimeMs?: number; // Stampede protection: time spent waiting
+}
+
+/**
+ * Where a cache's reads were served from, since it was created
+ */
+export interface CacheHitStats {
+  l1Hits: number;
+  l2Hits: number;
+  misses: number;
+  /** Entries and bytes currently held by the local cache, if enabled */
+  l1Entries?: number;
+  l1Bytes?: number;
+}
+
+export interface WriteResult {
+  key: string;
+  writtenToCache: boolean;
+  writtenToSource: boolean;
+}
+
+/**
+ * Decides how `Cache.getOrLoad` serves a key: when to load it from the
+ * source, and how concurrent or expiring reads are handled.
+ */
+export interface ReadStrategy<T> {
+  getOrLoad(
+    cache: Cache<T>,
+    key: string,
+    options?: DataSourceOptions
+  ): Promise<CacheLookup<T>>;
+
+  /** Release connections and timers */
+  close?(): Promise<void>;
+}
+
+/**
+ * Decides how `Cache.write` propagates a value to the cache and the source.
+ */
+export interface WriteStrategy<T> {
+  write(
+    cache: Cache<T>,
+    key: string,
+    value: T,
+    options?: DataSourceOptions
+  ): Promise<WriteResult>;
+
+  /** Release connections and timers, flushing pending work if possible */
+  close?(): Promise<void>;
+}
+
+/**
+ * Turns cached values into bytes and back
+ *
+ * Stored values carry the `id` and `version` of the codec that wrote them
+ * (see ValueSerializer), so entries written by another codec, or another
+ * version of the same codec, stay readable while a change rolls out.
+ */
+export interface Codec {
+  /** Identifies the codec in stored values, e.g. `json` (ASCII, at most 255 chars) */
+  readonly id: string;
+  /** Bumped when the encoding changes, between 0 and 255 */
+  readonly version: number;
+
+  encode(value: unknown): Buffer;
+
+  /**
+   * @param version - Version of the codec that encoded `payload`, at most
+   *   `this.version`
+   */
+  decode(payload: Buffer, version: number): unknown;
+}
@@ -0,0 +1,122 @@
+import type { Codec } from './types';
+import { UnsupportedCodecError } from './errors';
+import { JsonCodec } from './codecs/json.codec';
+import { MessagePackCodec } from './codecs/msgpack.codec';
+import {
+  CompressedCodec,
+  type CompressionAlgorithm,
+} from './codecs/compressed.codec';
+
+interface ValueSerializerOptions {
+  /** Codec new values are written with (default: JsonCodec) */
+  codec?: Codec;
+  /**
+   * Further codecs to read values with. The built-in codecs, and compressed
+   * variants of every known codec, are always readable.
+   */
+  codecs?: Codec[];
+}
+
+// Never the first byte of JSON text, which tells headers apart from the
+// plain JSON values written before values carried one
+const HEADER_MARKER = 0x00;
+
+const COMPRESSED_ID = /^(gzip|brotli)\+(.+)$/;
+
+const headerlessCodec = new JsonCodec();
+
+/**
+ * Value Serializer
+ *
+ * Encodes values with a codec, behind a header naming the codec and its
+ * version:
+ *
+ * ```
+ * 0x00 | id length (1 byte) | id (ASCII) | version (1 byte) | payload
+ * ```
+ *
+ * Values are decoded by the codec their header names, not the one currently
+ * configured. Switching codecs therefore needs no cache flush: existing
+ * entries stay readable until they expire or are overwritten.
+ */
+export class ValueSerializer {
+  readonly codec: Codec;
+  private readonly header: Buffer;
+  private readonly codecs = new Map<string, Codec>();
+
+  constructor(options: ValueSerializerOptions = {}) {
+    this.codec = options.codec ?? new JsonCodec();
+
+    const id = Buffer.from(this.codec.id, 'ascii');
+    if (id.length === 0 || id.length > 255) {
+      throw new Error(`Codec id "${this.codec.id}" must be 1-255 characters`);
+    }
+    if (
+      !Number.isInteger(this.codec.version) ||
+      this.codec.version < 0 ||
+      this.codec.version > 255
+    ) {
+      throw new Error(
+        `Codec version ${this.codec.version} must be an integer from 0 to 255`
+      );
+    }
+    this.header = Buffer.concat([
+      Buffer.from([HEADER_MARKER, id.length]),
+      id,
+      Buffer.from([this.codec.version]),
+    ]);
+
+    for (const codec of [
+      new JsonCodec(),
+      new MessagePackCodec(),
+      ...(options.codecs ?? []),
+      this.codec,
+    ]) {
+      this.codecs.set(codec.id, codec);
+    }
+  }
+
+  serialize(value: unknown): Buffer {
+    return Buffer.concat([this.header, this.codec.encode(value)]);
+  }
+
+  /**
+   * @throws UnsupportedCodecError if the value's codec is unknown, or newer
+   *   than the registered version
+   */
+  deserialize(data: Buffer): unknown {
+    if (data.length === 0 || data[0] !== HEADER_MARKER) {
+      return headerlessCodec.decode(data);
+    }
+
+    const idLength = data[1] ?? 0;
+    const id = data.toString('ascii', 2, 2 + idLength);
+    const version = data[2 + idLength];
+    if (idLength === 0 || version === undefined) {
+      throw new Error('Value has a truncated codec header');
+    }
+
+    const codec = this.resolve(id);
+    if (!codec || version > codec.version) {
+      throw new UnsupportedCodecError(id, version);
+    }
+    return codec.decode(data.subarray(3 + idLength), version);
+  }
+
+  private resolve(id: string): Codec | undefined {
+    let codec = this.codecs.get(id);
+
+    // Compressed variants, e.g. `gzip+msgpack`, wrap any known codec
+    const match = codec ? null : COMPRESSED_ID.exec(id);
+    const inner = match && this.resolve(match[2]);
+    if (match && inner) {
+      codec = new CompressedCodec({
+        codec: inner,
+        algorithm: match[1] as CompressionAlgorithm,
+      });
+      this.codecs.set(id, codec);
+    }
+
+    return codec;
+  }
+}
@@ -0,0 +1,112 @@
+import { ValkeyClient } from '@valkey-use-cases/shared';
+import { Cache } from '../src/cache';
+import { MissingDataSourceError } from '../src/errors';
+import { createSource, Item } from './fake-source';
+
+describe('Cache', () => {
+  const redis = ValkeyClient.getInstance();
+
+  beforeEach(async () => {
+    const keys = await redis.keys('test-*');
+    if (keys.length > 0) {
+      await redis.del(...keys);
+    }
+  });
+
+  afterAll(async () => {
+    await ValkeyClient.disconnect();
+  });
+
+  test('get misses until a value is set, then hits Valkey', async () => {
+    const cache = new Cache<Item>({ redis, name: 'test-cache' });
+
+    expect(await cache.get('1')).toBeNull();
+
+    await cache.set('1', { name: 'one' });
+    const hit = await cache.getWithMetadata('1');
+    expect(hit.value).toEqual({ name: 'one' });
+    expect(hit.level).toBe('l2');
+    expect(hit.ttl).toBe(3600);
+    expect(cache.hitStats()).toMatchObject({ l2Hits: 1, misses: 1 });
+  });
+
+  test('set stores under the cache name with the given TTL', async () => {
+    const cache = new Cache<Item>({ redis, name: 'test-cache' });
+
+    await cache.set('1', { name: 'one' }, 60);
+
+    expect(await redis.ttl('test-cache:1')).toBe(60);
+    expect((await cache.getWithMetadata('1')).ttl).toBe(60);
+  });
+
+  test('mget returns values in key order, null for misses', async () => {
+    const cache = new Cache<Item>({ redis, name: 'test-cache' });
+    await cache.set('1', { name: 'one' });
+    await cache.set('3', { name: 'three' });
+
+    expect(await cache.mget(['3', '2', '1'])).toEqual([
+      { name: 'three' },
+      null,
+      { name: 'one' },
+    ]);
+    expect(await cache.mget([])).toEqual([]);
+  });
+
+  test('invalidate deletes the value and reports whether it was cached', async () => {
+    const cache = new Cache<Item>({ redis, name: 'test-cache' });
+    await cache.set('1', { name: 'one' });
+
+    expect(await cache.invalidate('1')).toBe(true);
+    expect(await cache.get('1')).toBeNull();
+    expect(await cache.invalidate('1')).toBe(false);
+  });
+
+  test('getOrLoad loads a miss from the source and caches it', async () => {
+    const source = createSource({ '1': { name: 'one' } });
+    const cache = new Cache<Item>({ redis, name: 'test-cache', source });
+
+    const miss = await cache.getOrLoadWithMetadata('1');
+    expect(miss.value).toEqual({ name: 'one' });
+    expect(miss.source).toBe('computed');
+    expect(await cache.get('1')).toEqual({ name: 'one' });
+
+    const hit = await cache.getOrLoadWithMetadata('1');
+    expect(hit.value).toEqual({ name: 'one' });
+    expect(hit.source).toBe('cache');
+    expect(source.get).toHaveBeenCalledTimes(1);
+  });
+
+  test('getOrLoad does not cache keys missing from the source', async () => {
+    const source = createSource();
+    const cache = new Cache<Item>({ redis, name: 'test-cache', source });
+
+    expect(await cache.getOrLoad('missing')).toBeNull();
+    expect(await redis.exists('test-cache:missing')).toBe(0);
+
+    // A value written to the source later is picked up right away
+    await source.put('missing', { name: 'found' });
+    expect(await cache.getOrLoad('missing')).toEqual({ name: 'found' });
+    expect(source.get).toHaveBeenCalledTimes(2);
+  });
+
+  test('write goes to the source and the cache', async () => {
+    const source = createSource();
+    const cache = new Cache<Item>({ redis, name: 'test-cache', source });
+
+    const result = await cache.write('1', { name: 'one' });
+
+    expect(result).toEqual({
+      key: '1',
+      writtenToCache: true,
+      writtenToSource: true,
+    });
+    expect(await source.get('1')).toEqual({ name: 'one' });
+    expect(await cache.get('1')).toEqual({ name: 'one' });
+  });
+
+  test('getOrLoad without a source fails with MissingDataSourceError', async () => {
+    const cache = new Cache<Item>({ redis, name: 'test-cache' });
+
+    await expect(cache.getOrLoad('1')).rejects.toThrow(MissingDataSourceError);
+  });
+});
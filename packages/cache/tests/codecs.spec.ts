@@ -0,0 +1,96 @@
+import type { Codec } from '../src/types';
+import { JsonCodec } from '../src/codecs/json.codec';
+import { MessagePackCodec } from '../src/codecs/msgpack.codec';
+import { CompressedCodec } from '../src/codecs/compressed.codec';
+
+describe('Codecs', () => {
+  const value = {
+    name: 'report',
+    createdAt: new Date('2024-01-01T00:00:00.000Z'),
+    views: 12345678901234567890n,
+    totals: new Map<string, unknown>([
+      ['a', 1],
+      ['b', new Date('2024-02-01T00:00:00.000Z')],
+    ]),
+    tags: new Set(['x', 'y']),
+    thumbnail: Buffer.from([0, 1, 2, 255]),
+    nested: [{ at: new Date('2024-03-01T00:00:00.000Z') }, null],
+  };
+
+  const codecs: Array<[string, Codec]> = [
+    ['json', new JsonCodec()],
+    ['msgpack', new MessagePackCodec()],
+    ['gzip+json', new CompressedCodec()],
+    [
+      'brotli+msgpack',
+      new CompressedCodec({
+        codec: new MessagePackCodec(),
+        algorithm: 'brotli',
+      }),
+    ],
+  ];
+
+  test.each(codecs)(
+    '%s round-trips Date, BigInt, Map, Set and Buffer values',
+    (_id, codec) => {
+      const decoded = codec.decode(codec.encode(value), codec.version) as
+        | typeof value
+        | undefined;
+
+      expect(decoded).toEqual(value);
+      expect(decoded?.createdAt).toBeInstanceOf(Date);
+      expect(typeof decoded?.views).toBe('bigint');
+      expect(decoded?.totals).toBeInstanceOf(Map);
+      expect(decoded?.totals.get('b')).toBeInstanceOf(Date);
+      expect(decoded?.tags).toBeInstanceOf(Set);
+      expect(Buffer.isBuffer(decoded?.thumbnail)).toBe(true);
+    }
+  );
+
+  test('json writes special values as tagged objects', () => {
+    const encoded = new JsonCodec().encode({ at: value.createdAt });
+
+    expect(JSON.parse(encoded.toString('utf8'))).toEqual({
+      at: { $type: 'Date', value: '2024-01-01T00:00:00.000Z' },
+    });
+  });
+
+  test('json leaves objects with other keys than $type and value alone', () => {
+    const codec = new JsonCodec();
+    const lookalike = { $type: 'Date', value: 'now', extra: true };
+
+    expect(codec.decode(codec.encode(lookalike))).toEqual(lookalike);
+  });
+
+  test('compressed codec stores payloads under the threshold uncompressed', () => {
+    const codec = new CompressedCodec({ thresholdBytes: 100 });
+    const small = { name: 'small' };
+
+    const encoded = codec.encode(small);
+
+    expect(encoded[0]).toBe(0);
+    expect(encoded.subarray(1)).toEqual(new JsonCodec().encode(small));
+    expect(codec.decode(encoded, codec.version)).toEqual(small);
+  });
+
+  test('compressed codec compresses payloads over the threshold', () => {
+    const codec = new CompressedCodec({ thresholdBytes: 100 });
+    const large = { text: 'abc'.repeat(1000) };
+
+    const encoded = codec.encode(large);
+
+    expect(encoded[0]).toBe(1);
+    expect(encoded.length).toBeLessThan(new JsonCodec().encode(large).length);
+    expect(codec.decode(encoded, codec.version)).toEqual(large);
+  });
+
+  test('compressed codec ids name the algorithm and the wrapped codec', () => {
+    expect(new CompressedCodec().id).toBe('gzip+json');
+    expect(
+      new CompressedCodec({
+        codec: new MessagePackCodec(),
+        algorithm: 'brotli',
+      }).id
+    ).toBe('brotli+msgpack');
+  });
+});
@@ -0,0 +1,32 @@
+export interface Item {
+  name: string;
+}
+
+/**
+ * In-memory DataSource whose methods are jest mocks, to count loads
+ */
+export const createSource = (
+  entries: Record<string, Item> = {},
+  delayMs = 0
+) => {
+  const values = new Map(Object.entries(entries));
+  const wait = () => new Promise(resolve => setTimeout(resolve, delayMs));
+
+  return {
+    get: jest.fn(async (key: string): Promise<Item | null> => {
+      await wait();
+      return values.get(key) ?? null;
+    }),
+    getMany: jest.fn(
+      async (keys: string[]): Promise<(Item | null)[]> =>
+        keys.map(key => values.get(key) ?? null)
+    ),
+    put: jest.fn(async (key: string, value: Item): Promise<void> => {
+      values.set(key, value);
+    }),
+    delete: jest.fn(
+      async (key: string): Promise<boolean> => values.delete(key)
+    ),
+    close: jest.fn(async (): Promise<void> => {}),
+  };
+};
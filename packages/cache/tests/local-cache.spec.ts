@@ -0,0 +1,141 @@
+import { EventEmitter } from 'events';
+import type { Redis } from 'ioredis';
+import { LocalCache, type LocalCacheOptions } from '../src/local-cache';
+
+describe('Local Cache', () => {
+  // Stands in for the subscriber connection LocalCache duplicates
+  const createSubscriber = () =>
+    Object.assign(new EventEmitter(), {
+      subscribe: jest.fn(async () => 1),
+      quit: jest.fn(async () => 'OK'),
+    });
+
+  let subscriber: ReturnType<typeof createSubscriber>;
+
+  // A local cache whose subscription is confirmed, so it accepts values
+  const createCache = async (options: LocalCacheOptions = {}) => {
+    subscriber = createSubscriber();
+    const redis = { duplicate: () => subscriber } as unknown as Redis;
+    const cache = new LocalCache(redis, options);
+    subscriber.emit('ready');
+    await new Promise(resolve => setTimeout(resolve, 0));
+    return cache;
+  };
+
+  const bytes = (length: number) => Buffer.alloc(length, 1);
+
+  test('evicts the least recently used entry beyond maxEntries', async () => {
+    const cache = await createCache({ maxEntries: 2 });
+
+    cache.set('a', bytes(1), 60000, cache.generation);
+    cache.set('b', bytes(1), 60000, cache.generation);
+    cache.set('c', bytes(1), 60000, cache.generation);
+
+    expect(cache.size).toBe(2);
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.get('b')).toBeDefined();
+    expect(cache.get('c')).toBeDefined();
+  });
+
+  test('evicts the least recently used entries beyond maxBytes', async () => {
+    // Each entry counts 10 bytes of data and 1 byte of key
+    const cache = await createCache({ maxBytes: 30 });
+
+    cache.set('a', bytes(10), 60000, cache.generation);
+    cache.set('b', bytes(10), 60000, cache.generation);
+    expect(cache.sizeBytes).toBe(22);
+
+    cache.set('c', bytes(10), 60000, cache.generation);
+
+    expect(cache.sizeBytes).toBe(22);
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.get('b')).toBeDefined();
+    expect(cache.get('c')).toBeDefined();
+  });
+
+  test('drops values larger than maxBytes without evicting others', async () => {
+    const cache = await createCache({ maxBytes: 30 });
+    cache.set('a', bytes(10), 60000, cache.generation);
+
+    cache.set('big', bytes(30), 60000, cache.generation);
+
+    expect(cache.get('big')).toBeUndefined();
+    expect(cache.get('a')).toBeDefined();
+    expect(cache.sizeBytes).toBe(11);
+  });
+
+  test('get marks an entry as most recently used', async () => {
+    const cache = await createCache({ maxEntries: 2 });
+    cache.set('a', bytes(1), 60000, cache.generation);
+    cache.set('b', bytes(1), 60000, cache.generation);
+
+    cache.get('a');
+    cache.set('c', bytes(1), 60000, cache.generation);
+
+    expect(cache.get('a')).toBeDefined();
+    expect(cache.get('b')).toBeUndefined();
+  });
+
+  test('replacing an entry keeps the byte count exact', async () => {
+    const cache = await createCache();
+
+    cache.set('a', bytes(10), 60000, cache.generation);
+    cache.set('a', bytes(4), 60000, cache.generation);
+
+    expect(cache.size).toBe(1);
+    expect(cache.sizeBytes).toBe(5);
+  });
+
+  test('refuses a value read before a delete bumped the generation', async () => {
+    const cache = await createCache();
+    const generation = cache.generation;
+
+    cache.delete('a');
+    cache.set('a', bytes(1), 60000, generation);
+
+    expect(cache.get('a')).toBeUndefined();
+    cache.set('a', bytes(1), 60000, cache.generation);
+    expect(cache.get('a')).toBeDefined();
+  });
+
+  test('refuses a value read before a clear bumped the generation', async () => {
+    const cache = await createCache();
+    const generation = cache.generation;
+
+    cache.clear();
+    cache.set('a', bytes(1), 60000, generation);
+
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  test('drops an entry when another process publishes its key', async () => {
+    const cache = await createCache();
+    cache.set('a', bytes(1), 60000, cache.generation);
+
+    subscriber.emit('message', 'cache:invalidations', 'a');
+
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  test('bypasses and clears the L1 while unsubscribed', async () => {
+    const cache = await createCache();
+    cache.set('a', bytes(1), 60000, cache.generation);
+
+    subscriber.emit('close');
+
+    expect(cache.size).toBe(0);
+    cache.set('a', bytes(1), 60000, cache.generation);
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  test('keeps an entry no longer than its remaining TTL in Valkey', async () => {
+    const cache = await createCache({ ttlSeconds: 30 });
+
+    cache.set('a', bytes(1), 50, cache.generation);
+    expect(cache.get('a')?.ttlMs).toBeLessThanOrEqual(50);
+
+    await new Promise(resolve => setTimeout(resolve, 60));
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.sizeBytes).toBe(0);
+  });
+});
@@ -0,0 +1,209 @@
+import { ValkeyClient } from '@valkey-use-cases/shared';
+import { Cache } from '../src/cache';
+import type { ReadStrategy } from '../src/types';
+import { ReadThroughStrategy } from '../src/strategies/read-through.strategy';
+import { RefreshAheadStrategy } from '../src/strategies/refresh-ahead.strategy';
+import { StampedeProtectionStrategy } from '../src/strategies/stampede-protection.strategy';
+import { WriteBehindStrategy } from '../src/strategies/write-behind.strategy';
+import { CacheAsideStrategy } from '../src/strategies/cache-aside.strategy';
+import { MissingDataSourceError } from '../src/errors';
+import { createSource, Item } from './fake-source';
+
+describe('Cache Strategies', () => {
+  const redis = ValkeyClient.getInstance();
+
+  const readStrategies: Array<[string, () => ReadStrategy<Item>]> = [
+    ['read-through', () => new ReadThroughStrategy()],
+    ['refresh-ahead', () => new RefreshAheadStrategy()],
+    ['stampede-protection', () => new StampedeProtectionStrategy()],
+  ];
+
+  beforeEach(async () => {
+    const keys = [
+      ...(await redis.keys('test-*')),
+      ...(await redis.keys('lock:test-*')),
+    ];
+    if (keys.length > 0) {
+      await redis.del(...keys);
+    }
+  });
+
+  afterAll(async () => {
+    await ValkeyClient.disconnect();
+  });
+
+  test.each(readStrategies)(
+    '%s loads a miss and serves the next read from the cache',
+    async (name, createStrategy) => {
+      const source = createSource({ '1': { name: 'one' } });
+      const cache = new Cache<Item>({
+        redis,
+        name: `test-${name}`,
+        source,
+        readStrategy: createStrategy(),
+      });
+
+      const miss = await cache.getOrLoadWithMetadata('1');
+      expect(miss.value).toEqual({ name: 'one' });
+      expect(miss.source).toBe('computed');
+
+      const hit = await cache.getOrLoadWithMetadata('1');
+      expect(hit.value).toEqual({ name: 'one' });
+      expect(hit.source).toBe('cache');
+      expect(source.get).toHaveBeenCalledTimes(1);
+    }
+  );
+
+  test.each(readStrategies)(
+    '%s does not cache keys missing from the source',
+    async (name, createStrategy) => {
+      const source = createSource();
+      const cache = new Cache<Item>({
+        redis,
+        name: `test-${name}`,
+        source,
+        readStrategy: createStrategy(),
+      });
+
+      expect(await cache.getOrLoad('missing')).toBeNull();
+      expect(await cache.getOrLoad('missing')).toBeNull();
+
+      expect(source.get).toHaveBeenCalledTimes(2);
+      expect(await redis.exists(`test-${name}:missing`)).toBe(0);
+    }
+  );
+
+  test('stampede protection loads concurrent misses once', async () => {
+    const source = createSource({ '1': { name: 'one' } }, 200);
+    const cache = new Cache<Item>({
+      redis,
+      name: 'test-stampede-protection',
+      source,
+      readStrategy: new StampedeProtectionStrategy({ maxWaitMs: 5000 }),
+    });
+
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => cache.getOrLoadWithMetadata('1'))
+    );
+
+    expect(results.every(r => r.value?.name === 'one')).toBe(true);
+    expect(results.filter(r => r.lockAcquired)).toHaveLength(1);
+    expect(source.get).toHaveBeenCalledTimes(1);
+  });
+
+  test('refresh-ahead serves a value close to expiry and refreshes it', async () => {
+    const source = createSource({ '1': { name: 'new' } });
+    const cache = new Cache<Item>({
+      redis,
+      name: 'test-refresh-ahead',
+      ttlSeconds: 10,
+      source,
+      readStrategy: new RefreshAheadStrategy({ refreshThreshold: 0.2 }),
+    });
+    // 1s left is below the 2s threshold
+    await cache.set('1', { name: 'old' }, 1);
+
+    expect(await cache.getOrLoad('1')).toEqual({ name: 'old' });
+
+    await new Promise(resolve => setTimeout(resolve, 200));
+    expect(await cache.get('1')).toEqual({ name: 'new' });
+    expect(await redis.ttl('test-refresh-ahead:1')).toBeGreaterThan(1);
+  });
+
+  test('cache-aside loads misses with the loader, without a source', async () => {
+    const source = createSource({ '1': { name: 'one' } });
+    const cache = new Cache<Item>({
+      redis,
+      name: 'test-cache-aside',
+      readStrategy: new CacheAsideStrategy({
+        load: key => source.get(key),
+      }),
+    });
+
+    expect((await cache.getOrLoadWithMetadata('1')).source).toBe('computed');
+    expect((await cache.getOrLoadWithMetadata('1')).source).toBe('cache');
+    expect(await cache.getOrLoad('missing')).toBeNull();
+    expect(await redis.exists('test-cache-aside:missing')).toBe(0);
+    expect(source.get).toHaveBeenCalledTimes(2);
+  });
+
+  describe('write-behind', () => {
+    const createCache = (name: string, strategy: WriteBehindStrategy<Item>) => {
+      const source = createSource();
+      const cache = new Cache<Item>({
+        redis,
+        name,
+        source,
+        writeStrategy: strategy,
+      });
+      return { cache, source };
+    };
+
+    test('caches right away and queues the source write', async () => {
+      const strategy = new WriteBehindStrategy<Item>({
+        redis,
+        queuePrefix: 'test-queue:',
+        groupName: 'test-write-behind:workers',
+      });
+      const { cache, source } = createCache('test-write-behind', strategy);
+
+      try {
+        await strategy.start(cache);
+        const result = await cache.write('1', { name: 'one' });
+
+        expect(result.writtenToCache).toBe(true);
+        expect(result.writtenToSource).toBe(false);
+        expect(await cache.get('1')).toEqual({ name: 'one' });
+        expect(await redis.xlen('test-queue:test-write-behind')).toBe(1);
+        expect(source.put).not.toHaveBeenCalled();
+      } finally {
+        await cache.close();
+      }
+    });
+
+    test("persists each cache's writes to its own source", async () => {
+      // Both caches share the strategy, and so the consumer group
+      const strategy = new WriteBehindStrategy<Item>({
+        redis,
+        queuePrefix: 'test-queue:',
+        groupName: 'test-write-behind:workers',
+        consumers: 1,
+      });
+      const users = createCache('test-users', strategy);
+      const orders = createCache('test-orders', strategy);
+
+      try {
+        await strategy.start(users.cache);
+        await strategy.start(orders.cache);
+        await users.cache.write('1', { name: 'user' });
+        await orders.cache.write('1', { name: 'order' });
+
+        // Consumers poll every 5s
+        await new Promise(resolve => setTimeout(resolve, 5500));
+
+        expect(users.source.put).toHaveBeenCalledTimes(1);
+        expect(users.source.put).toHaveBeenCalledWith('1', { name: 'user' });
+        expect(orders.source.put).toHaveBeenCalledTimes(1);
+        expect(orders.source.put).toHaveBeenCalledWith('1', { name: 'order' });
+        expect(
+          (await strategy.getQueueStats(users.cache)).totalPendingMessages
+        ).toBe(0);
+      } finally {
+        await strategy.close();
+      }
+    }, 10000);
+
+    test('refuses to start for a cache without a source', async () => {
+      const strategy = new WriteBehindStrategy<Item>({ redis });
+      const cache = new Cache<Item>({
+        redis,
+        name: 'test-no-source',
+        writeStrategy: strategy,
+      });
+
+      await expect(strategy.start(cache)).rejects.toThrow(
+        MissingDataSourceError
+      );
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { ValkeyClient } from '@valkey-use-cases/shared';
+import { TagIndex } from '../src/tag-index';
+
+describe('Tag Index', () => {
+  const redis = ValkeyClient.getInstance();
+  const tags = new TagIndex({ redis, prefix: 'test-tag:' });
+
+  beforeEach(async () => {
+    const keys = await redis.keys('test-*');
+    if (keys.length > 0) {
+      await redis.del(...keys);
+    }
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await ValkeyClient.disconnect();
+  });
+
+  test('lists keys by the server clock, whatever the client clock says', async () => {
+    await tags.setTagged('test-item:1', Buffer.from('1'), 60, ['product:1']);
+    await tags.setTagged('test-item:2', Buffer.from('2'), 1, ['product:1']);
+
+    // A client clock running 30s ahead must not hide live keys
+    const realNow = Date.now.bind(Date);
+    jest.spyOn(Date, 'now').mockImplementation(() => realNow() + 30000);
+    expect((await tags.keys('product:1')).sort()).toEqual([
+      'test-item:1',
+      'test-item:2',
+    ]);
+
+    // Expired keys are left out, even before the set is next written
+    await new Promise(resolve => setTimeout(resolve, 1100));
+    expect(await tags.keys('product:1')).toEqual(['test-item:1']);
+  });
+
+  test('invalidate deletes every key carrying a tag', async () => {
+    await tags.setTagged('test-item:1', Buffer.from('1'), 60, ['a']);
+    await tags.setTagged('test-item:2', Buffer.from('2'), 60, ['a', 'b']);
+    await tags.setTagged('test-item:3', Buffer.from('3'), 60, ['b']);
+
+    expect(await tags.invalidate(['a'])).toBe(2);
+
+    expect(await redis.exists('test-item:1', 'test-item:2')).toBe(0);
+    expect(await redis.exists('test-item:3')).toBe(1);
+    expect(await tags.keys('a')).toEqual([]);
+  });
+});
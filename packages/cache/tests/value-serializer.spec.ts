@@ -0,0 +1,152 @@
+import type { Codec } from '../src/types';
+import { ValueSerializer } from '../src/value-serializer';
+import { UnsupportedCodecError } from '../src/errors';
+import { MessagePackCodec } from '../src/codecs/msgpack.codec';
+import { CompressedCodec } from '../src/codecs/compressed.codec';
+
+// JSON codec of a given version, whose decode reports the version it was
+// passed
+class VersionedCodec implements Codec {
+  readonly id = 'versioned';
+
+  constructor(readonly version: number) {}
+
+  encode(value: unknown): Buffer {
+    return Buffer.from(JSON.stringify(value), 'utf8');
+  }
+
+  decode(payload: Buffer, version: number): unknown {
+    return { version, value: JSON.parse(payload.toString('utf8')) };
+  }
+}
+
+describe('Value Serializer', () => {
+  const value = {
+    createdAt: new Date('2024-01-01T00:00:00.000Z'),
+    views: 42n,
+    totals: new Map([['a', 1]]),
+    tags: new Set(['x']),
+    thumbnail: Buffer.from([1, 2, 3]),
+  };
+
+  test('writes a header naming the codec and its version', () => {
+    const data = new ValueSerializer().serialize({ a: 1 });
+
+    expect([...data.subarray(0, 2)]).toEqual([0x00, 4]);
+    expect(data.toString('ascii', 2, 6)).toBe('json');
+    expect(data[6]).toBe(1);
+    expect(data.toString('utf8', 7)).toBe('{"a":1}');
+  });
+
+  test.each([
+    ['json', undefined],
+    ['msgpack', new MessagePackCodec()],
+    ['gzip+json', new CompressedCodec({ thresholdBytes: 0 })],
+    [
+      'brotli+msgpack',
+      new CompressedCodec({
+        codec: new MessagePackCodec(),
+        algorithm: 'brotli',
+        thresholdBytes: 0,
+      }),
+    ],
+  ])('round-trips values written with %s', (_id, codec) => {
+    const serializer = new ValueSerializer({ codec });
+
+    expect(serializer.deserialize(serializer.serialize(value))).toEqual(value);
+  });
+
+  test('reads values by the codec in their header, not the configured one', () => {
+    const msgpack = new ValueSerializer({ codec: new MessagePackCodec() });
+    const brotli = new ValueSerializer({
+      codec: new CompressedCodec({
+        codec: new MessagePackCodec(),
+        algorithm: 'brotli',
+        thresholdBytes: 0,
+      }),
+    });
+    const json = new ValueSerializer();
+
+    expect(json.deserialize(msgpack.serialize(value))).toEqual(value);
+    expect(json.deserialize(brotli.serialize(value))).toEqual(value);
+  });
+
+  test('reads headerless values as legacy JSON', () => {
+    const serializer = new ValueSerializer({ codec: new MessagePackCodec() });
+
+    expect(
+      serializer.deserialize(Buffer.from('{"name":"legacy","n":1}', 'utf8'))
+    ).toEqual({ name: 'legacy', n: 1 });
+    expect(serializer.deserialize(Buffer.from('"text"', 'utf8'))).toBe('text');
+  });
+
+  test('rejects a truncated header', () => {
+    const serializer = new ValueSerializer();
+
+    expect(() => serializer.deserialize(Buffer.from([0x00]))).toThrow(
+      'Value has a truncated codec header'
+    );
+    // The id is cut short, so no version byte follows it
+    expect(() =>
+      serializer.deserialize(
+        Buffer.concat([Buffer.from([0x00, 4]), Buffer.from('js', 'ascii')])
+      )
+    ).toThrow('Value has a truncated codec header');
+  });
+
+  test('rejects values of an unknown codec with UnsupportedCodecError', () => {
+    const writer = new ValueSerializer({ codec: new VersionedCodec(1) });
+    const data = writer.serialize({ a: 1 });
+
+    let error: unknown;
+    try {
+      new ValueSerializer().deserialize(data);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(UnsupportedCodecError);
+    expect(error).toMatchObject({ codecId: 'versioned', codecVersion: 1 });
+  });
+
+  test('rejects values of a newer codec version with UnsupportedCodecError', () => {
+    const newer = new ValueSerializer({ codec: new VersionedCodec(2) });
+    const older = new ValueSerializer({ codec: new VersionedCodec(1) });
+
+    expect(() => older.deserialize(newer.serialize({ a: 1 }))).toThrow(
+      UnsupportedCodecError
+    );
+    // Older versions stay readable, and the codec is told which one it got
+    expect(newer.deserialize(older.serialize({ a: 1 }))).toEqual({
+      version: 1,
+      value: { a: 1 },
+    });
+  });
+
+  test('reads values of custom codecs registered for reading only', () => {
+    const writer = new ValueSerializer({ codec: new VersionedCodec(1) });
+    const reader = new ValueSerializer({ codecs: [new VersionedCodec(1)] });
+
+    expect(reader.deserialize(writer.serialize({ a: 1 }))).toEqual({
+      version: 1,
+      value: { a: 1 },
+    });
+  });
+
+  test('rejects codec ids and versions that do not fit the header', () => {
+    expect(
+      () =>
+        new ValueSerializer({
+          codec: {
+            id: '',
+            version: 1,
+            encode: () => Buffer.alloc(0),
+            decode: () => null,
+          },
+        })
+    ).toThrow('must be 1-255 characters');
+    expect(
+      () => new ValueSerializer({ codec: new VersionedCodec(256) })
+    ).toThrow('must be an integer from 0 to 255');
+  });
+});
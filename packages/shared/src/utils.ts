@@ -23,3 +23,19 @@ export const parseExpiry = (expiry: string | number): number => {
       return parseInt(expiry);
   }
 };
+
+/**
+ * Split an array into chunks of at most `chunkSize` items, e.g. to process
+ * items in batches with controlled concurrency:
+ *
+ * ```typescript
+ * chunkArray(['a', 'b', 'c', 'd', 'e'], 2); // [['a', 'b'], ['c', 'd'], ['e']]
+ * ```
+ */
+export const chunkArray = <T>(array: T[], chunkSize: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < array.length; i += chunkSize) {
+    chunks.push(array.slice(i, i + chunkSize));
+  }
+  return chunks;
+};